@@ -0,0 +1,151 @@
+import { Commit } from "./git";
+
+export const CHANGELOG_FILE = "CHANGELOG.md";
+export const UNRELEASED = "Unreleased";
+
+/** Section headings of the Keep a Changelog format, in their usual order. */
+export const CHANGELOG_SECTIONS = [
+  "Added",
+  "Changed",
+  "Deprecated",
+  "Removed",
+  "Fixed",
+  "Security",
+] as const;
+
+export type ChangelogSection = (typeof CHANGELOG_SECTIONS)[number];
+
+const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+`;
+
+const CONVENTIONAL_SECTIONS: Record<string, ChangelogSection | undefined> = {
+  feat: "Added",
+  fix: "Fixed",
+  perf: "Changed",
+  refactor: "Changed",
+  revert: "Removed",
+  security: "Security",
+  deprecate: "Deprecated",
+};
+
+const GITMOJI_SECTIONS: Array<[string, ChangelogSection]> = [
+  ["✨", "Added"],
+  ["🎉", "Added"],
+  ["🐛", "Fixed"],
+  ["🚑", "Fixed"],
+  ["🔥", "Removed"],
+  ["⚰️", "Removed"],
+  ["🔒", "Security"],
+  ["🗑️", "Deprecated"],
+  ["⚡", "Changed"],
+  ["♻️", "Changed"],
+  ["💥", "Changed"],
+];
+
+/**
+ * Keep a Changelog section for a commit, from its Conventional Commits type,
+ * gitmoji or leading verb. `undefined` marks internal changes (tests, CI,
+ * docs, chores) unless they are breaking.
+ */
+export function classifyCommit(message: string): ChangelogSection | undefined {
+  const subject = message.split("\n", 1)[0];
+  const breaking =
+    /^\w+(?:\([^)]*\))?!:/.test(subject) ||
+    /^BREAKING[ -]CHANGE:/m.test(message);
+
+  const conventional = subject.match(/^(\w+)(?:\([^)]*\))?!?:/);
+  if (conventional) {
+    return (
+      CONVENTIONAL_SECTIONS[conventional[1].toLowerCase()] ??
+      (breaking ? "Changed" : undefined)
+    );
+  }
+  const gitmoji = GITMOJI_SECTIONS.find(([emoji]) => subject.startsWith(emoji));
+  if (gitmoji) {
+    return gitmoji[1];
+  }
+  if (/\b(?:security|vulnerab\w*|CVE-\d+)/i.test(subject)) {
+    return "Security";
+  }
+  if (/^(?:add|introduce|support|implement|new)\b/i.test(subject)) {
+    return "Added";
+  }
+  if (/^(?:fix|correct|resolve|repair)\w*\b/i.test(subject)) {
+    return "Fixed";
+  }
+  if (/^(?:remove|delete|drop)\w*\b/i.test(subject)) {
+    return "Removed";
+  }
+  if (/^deprecat/i.test(subject)) {
+    return "Deprecated";
+  }
+  if (/^(?:test|ci|docs?|chore|bump|release|merge|wip)\b/i.test(subject)) {
+    return undefined;
+  }
+  return "Changed";
+}
+
+/** Commits grouped by section, in changelog order; internal ones last. */
+export function groupCommits(
+  commits: Commit[]
+): Array<{ section: ChangelogSection | "Internal"; commits: Commit[] }> {
+  const groups = new Map<ChangelogSection | "Internal", Commit[]>();
+  for (const commit of commits) {
+    const section = classifyCommit(commit.message) ?? "Internal";
+    groups.set(section, [...(groups.get(section) ?? []), commit]);
+  }
+  return [...CHANGELOG_SECTIONS, "Internal" as const]
+    .filter((section) => groups.has(section))
+    .map((section) => ({ section, commits: groups.get(section)! }));
+}
+
+/**
+ * Adds a version section to a changelog, creating the Keep a Changelog
+ * header if the file has none. New versions go above the latest release and
+ * below any `Unreleased` section, which is only replaced by new `Unreleased`
+ * notes. Link reference definitions at the end stay there.
+ */
+export function insertChangelogSection(
+  existing: string,
+  version: string,
+  date: string,
+  notes: string
+): string {
+  const heading =
+    version === UNRELEASED ? `## [${UNRELEASED}]` : `## [${version}] - ${date}`;
+  const section = `${heading}\n\n${notes.trim()}\n`;
+
+  let text = existing.replace(/\r\n/g, "\n");
+  if (!/^# /m.test(text)) {
+    text = `${CHANGELOG_HEADER}\n${text.trimStart()}`;
+  }
+
+  // Trailing link references, e.g. `[Unreleased]: https://…/compare/…`
+  const footerIndex = text.search(
+    /^(?:\[[^\]]+\]:.*(?:\n|$)|[ \t]*(?:\n|$))*(?![\s\S])/m
+  );
+  let body = text.slice(0, footerIndex);
+  const footer = text.slice(footerIndex).trim();
+
+  if (version === UNRELEASED) {
+    const unreleased = body.match(
+      /^## \[?Unreleased\]?.*\n[\s\S]*?(?=^##? |(?![\s\S]))/im
+    );
+    if (unreleased?.index !== undefined) {
+      body =
+        body.slice(0, unreleased.index) +
+        body.slice(unreleased.index + unreleased[0].length);
+    }
+  }
+
+  const latest = body.match(/^#{2,3} \[?v?\d/m);
+  const index = latest?.index ?? body.length;
+  const before = body.slice(0, index).replace(/\n*$/, "\n\n");
+  const after = body.slice(index).trim();
+  return `${before}${section}${after ? `\n${after}\n` : ""}${footer ? `\n${footer}\n` : ""}`;
+}
@@ -7,11 +7,18 @@ const sendButton = document.getElementById("sendBtn");
 const messagesContainer = document.getElementById("messagesContainer");
 const welcomeMessage = document.getElementById("welcomeMessage");
 const typingIndicator = document.getElementById("typingIndicator");
+const sessionPanel = document.getElementById("sessionPanel");
+const sessionList = document.getElementById("sessionList");
+const sessionSearch = document.getElementById("sessionSearch");
 
 // State
 let messages = [];
 let isTyping = false;
 let isGenerating = false;
+let sessions = [];
+let currentSessionId = null;
+let sessionSearchTimer = null;
+let chatModes = [];
 
 // Model Configuration
 const availableModels = [
@@ -29,6 +36,61 @@ const availableModels = [
 function init() {
   setupEventListeners();
   populateModelSelect();
+  setupModeSelect();
+}
+
+function setupModeSelect() {
+  const chatTypeSelect = document.getElementById("chatTypeSelect");
+  chatTypeSelect.addEventListener("change", (e) => {
+    updateModeIcon(e.target.value);
+    vscode.postMessage({ type: "modeChange", mode: e.target.value });
+  });
+}
+
+function updateModes(modes, currentMode) {
+  const chatTypeSelect = document.getElementById("chatTypeSelect");
+  const changed =
+    modes.length !== chatModes.length ||
+    modes.some(
+      (mode, index) =>
+        mode.id !== chatModes[index].id || mode.name !== chatModes[index].name
+    );
+  chatModes = modes;
+  if (changed) {
+    chatTypeSelect.innerHTML = "";
+    modes.forEach((mode) => {
+      const option = document.createElement("option");
+      option.value = mode.id;
+      option.textContent = mode.name;
+      chatTypeSelect.appendChild(option);
+    });
+  }
+  if (currentMode) {
+    chatTypeSelect.value = currentMode;
+    updateModeIcon(currentMode);
+  }
+}
+
+function updateModeIcon(modeId) {
+  const modeIcon = document.getElementById("modeIcon");
+  const mode = chatModes.find((m) => m.id === modeId);
+  modeIcon.className = `codicon codicon-${(mode && mode.icon) || "comment-discussion"}`;
+}
+
+function selectModel(modelId) {
+  const modelSelect = document.getElementById("modelSelect");
+  if (!modelId || !modelSelect) {
+    return;
+  }
+  // Custom modes may default to a model the picker does not list yet
+  if (!availableModels.some((m) => m.id === modelId)) {
+    availableModels.push({ id: modelId, name: modelId, icon: "sparkle" });
+    const option = document.createElement("option");
+    option.value = modelId;
+    option.textContent = modelId;
+    modelSelect.appendChild(option);
+  }
+  modelSelect.value = modelId;
 }
 
 function populateModelSelect() {
@@ -66,10 +128,32 @@ function setupEventListeners() {
   if (attachBtn) {
     attachBtn.addEventListener("click", handleAttachContext);
   }
+  const addSelectionBtn = document.getElementById("addSelectionBtn");
+  if (addSelectionBtn) {
+    addSelectionBtn.addEventListener("click", handleAddSelection);
+  }
+  document
+    .getElementById("historyBtn")
+    .addEventListener("click", toggleSessionPanel);
+  document
+    .getElementById("newChatBtn")
+    .addEventListener("click", () => vscode.postMessage({ type: "newChat" }));
+  sessionSearch.addEventListener("input", handleSessionSearch);
+  sessionList.addEventListener("click", handleSessionListClick);
   window.addEventListener("message", handleVSCodeMessage);
+  messagesContainer.addEventListener("click", handleLinkClick);
   setTimeout(autoDetectContext, 500);
 }
 
+function handleLinkClick(e) {
+  const link = e.target.closest("a[href]");
+  if (!link || !/^https?:\/\//.test(link.getAttribute("href"))) {
+    return;
+  }
+  e.preventDefault();
+  vscode.postMessage({ type: "openExternal", url: link.getAttribute("href") });
+}
+
 function handleInputChange() {
   messageInput.style.height = "auto";
   messageInput.style.height = Math.min(messageInput.scrollHeight, 120) + "px";
@@ -143,6 +227,7 @@ function updateSendButton() {
 
 // Streaming message handling
 const streamingMessages = new Map();
+const rawMessageContent = new WeakMap();
 
 function startStreamingMessage(messageId) {
   if (welcomeMessage.style.display !== "none") {
@@ -196,11 +281,20 @@ function appendToStreamingMessage(messageId, chunk) {
   }
 }
 
-function finishStreamingMessage(messageId) {
+function finishStreamingMessage(
+  messageId,
+  interrupted = false,
+  citations = []
+) {
   const streamingMessage = streamingMessages.get(messageId);
   if (!streamingMessage) {
     return;
   }
+  if (!streamingMessage.content) {
+    streamingMessage.element.remove();
+    streamingMessages.delete(messageId);
+    return;
+  }
   const cursor = streamingMessage.element.querySelector(".streaming-cursor");
   const status = streamingMessage.element.querySelector(".message-status");
   if (cursor) {
@@ -226,17 +320,80 @@ function finishStreamingMessage(messageId) {
   streamingMessage.element
     .querySelector(".message-content")
     .appendChild(actionsDiv);
+  if (interrupted) {
+    streamingMessage.element
+      .querySelector(".message-header")
+      .appendChild(createInterruptedBadge());
+  }
+  if (citations.length > 0) {
+    streamingMessage.contentElement.innerHTML = formatMessageContent(
+      streamingMessage.content,
+      citations
+    );
+    streamingMessage.contentElement.after(createSourcesList(citations));
+  }
+  decorateCodeBlocks(streamingMessage.contentElement);
+  rawMessageContent.set(streamingMessage.element, streamingMessage.content);
   messages.push({
     role: "assistant",
     content: streamingMessage.content,
     timestamp: Date.now(),
+    interrupted,
+    citations,
   });
   streamingMessages.delete(messageId);
   streamingMessage.element.id = "";
   streamingMessage.element.classList.remove("streaming");
 }
 
-function addMessage(role, content, timestamp = null, addToArray = true) {
+function createInterruptedBadge() {
+  const badge = document.createElement("div");
+  badge.className = "message-interrupted";
+  badge.title = "Generation was stopped before the response finished";
+  badge.innerHTML = '<i class="codicon codicon-debug-stop"></i> Interrupted';
+  return badge;
+}
+
+function createSourcesList(citations) {
+  const sources = document.createElement("div");
+  sources.className = "message-sources";
+  const title = document.createElement("div");
+  title.className = "message-sources-title";
+  title.innerHTML = '<i class="codicon codicon-globe"></i> Sources';
+  const list = document.createElement("ol");
+  citations.forEach((citation) => {
+    const item = document.createElement("li");
+    // Sources come from the API; only web links are clickable
+    const link = document.createElement(isWebUrl(citation.url) ? "a" : "span");
+    if (link instanceof HTMLAnchorElement) {
+      link.href = citation.url;
+    }
+    link.textContent = citation.title || citation.url;
+    link.title = citation.url;
+    item.appendChild(link);
+    const domain = document.createElement("span");
+    domain.className = "message-source-domain";
+    try {
+      domain.textContent = new URL(citation.url).hostname;
+    } catch {
+      domain.textContent = "";
+    }
+    item.appendChild(domain);
+    list.appendChild(item);
+  });
+  sources.appendChild(title);
+  sources.appendChild(list);
+  return sources;
+}
+
+function addMessage(
+  role,
+  content,
+  timestamp = null,
+  addToArray = true,
+  details = {}
+) {
+  const { interrupted = false, citations = [] } = details;
   const messageDiv = document.createElement("div");
   messageDiv.className = `message ${role}`;
   const time = timestamp
@@ -253,7 +410,7 @@ function addMessage(role, content, timestamp = null, addToArray = true) {
       <div class="message-author">${role === "user" ? "You" : "Perplexity AI"}</div>
       <div class="message-time">${time}</div>
     </div>
-    <div class="message-content">${formatMessageContent(content)}</div>
+    <div class="message-content">${formatMessageContent(content, citations)}</div>
     <div class="message-actions">
       <button class="message-action" title="Copy message">
         <i class="codicon codicon-copy"></i>
@@ -262,6 +419,18 @@ function addMessage(role, content, timestamp = null, addToArray = true) {
   `;
   messageDiv.querySelector(".message-action").onclick = (e) =>
     copyMessage(e.currentTarget);
+  decorateCodeBlocks(messageDiv.querySelector(".message-content"));
+  rawMessageContent.set(messageDiv, content);
+  if (interrupted) {
+    messageDiv
+      .querySelector(".message-header")
+      .appendChild(createInterruptedBadge());
+  }
+  if (citations.length > 0) {
+    messageDiv
+      .querySelector(".message-content")
+      .after(createSourcesList(citations));
+  }
   if (welcomeMessage.style.display !== "none") {
     welcomeMessage.style.display = "none";
   }
@@ -272,16 +441,21 @@ function addMessage(role, content, timestamp = null, addToArray = true) {
       role,
       content,
       timestamp: timestamp || new Date().toISOString(),
+      interrupted,
+      citations,
     });
   }
 }
 
-function formatMessageContent(content) {
+function formatMessageContent(content, citations = []) {
+  // Code blocks are rendered separately so line handling and inline
+  // markdown below cannot mangle their contents
+  const codeBlocks = [];
   let formatted = content
-    .replace(
-      /```(\w+)?\n?([\s\S]*?)```/g,
-      '<pre><code class="language-$1">$2</code></pre>'
-    )
+    .replace(/```([^\n`]*)\n?([\s\S]*?)```/g, (match, info, code) => {
+      codeBlocks.push(renderCodeBlock(info, code));
+      return `\n<div data-code-block="${codeBlocks.length - 1}"></div>\n`;
+    })
     .replace(/`([^\n`]+)`/g, "<code>$1</code>")
     .replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")
     .replace(/\*(.*?)\*/g, "<em>$1</em>")
@@ -323,7 +497,111 @@ function formatMessageContent(content) {
   if (inList) {
     result.push(`<ul>${listItems.join("")}</ul>`);
   }
-  return wrapInParagraphs(result.join(""));
+  const html = wrapInParagraphs(result.join("")).replace(
+    /<div data-code-block="(\d+)"><\/div>/g,
+    (match, index) => codeBlocks[Number(index)]
+  );
+  return linkCitations(html, citations);
+}
+
+function escapeHtml(text) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function isWebUrl(url) {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// The info string may carry a language, a file path or both
+function renderCodeBlock(info, code) {
+  const tokens = info.trim().split(/\s+/).filter(Boolean);
+  let language = "";
+  let file = "";
+  tokens.forEach((token) => {
+    const value = token.replace(/^(?:file(?:name)?|title)=/, "");
+    if (!file && /[./\\]/.test(value)) {
+      file = value.replace(/^["']|["']$/g, "");
+    } else if (!language) {
+      language = value;
+    }
+  });
+  return `<pre data-file="${escapeHtml(file)}" data-language="${escapeHtml(language)}"><code class="language-${escapeHtml(language)}">${escapeHtml(code.replace(/\n$/, ""))}</code></pre>`;
+}
+
+// Adds copy/insert/apply actions to every code block in a rendered message
+function decorateCodeBlocks(container) {
+  container.querySelectorAll("pre").forEach((pre) => {
+    if (pre.parentElement.classList.contains("code-block")) {
+      return;
+    }
+    const wrapper = document.createElement("div");
+    wrapper.className = "code-block";
+    const toolbar = document.createElement("div");
+    toolbar.className = "code-block-actions";
+    const label = document.createElement("span");
+    label.className = "code-block-label";
+    label.textContent = pre.dataset.file || pre.dataset.language || "";
+    toolbar.appendChild(label);
+    const code = () => pre.querySelector("code").textContent;
+    [
+      ["copy", "Copy", () => ({ type: "copyToClipboard", value: code() })],
+      [
+        "insert",
+        "Insert at cursor",
+        () => ({ type: "insertAtCursor", value: code() }),
+      ],
+      [
+        "git-pull-request-go-to-changes",
+        "Apply to file",
+        () => ({
+          type: "applyCodeBlock",
+          code: code(),
+          fileHint: pre.dataset.file,
+        }),
+      ],
+    ].forEach(([icon, title, message]) => {
+      const button = document.createElement("button");
+      button.className = "code-block-action";
+      button.title = title;
+      button.innerHTML = `<i class="codicon codicon-${icon}"></i>`;
+      button.onclick = () => vscode.postMessage(message());
+      toolbar.appendChild(button);
+    });
+    pre.replaceWith(wrapper);
+    wrapper.appendChild(toolbar);
+    wrapper.appendChild(pre);
+  });
+}
+
+// Turn [n] markers into links to the matching source, leaving code untouched
+function linkCitations(html, citations) {
+  if (!citations || citations.length === 0) {
+    return html;
+  }
+  return html
+    .split(/(<pre[\s\S]*?<\/pre>|<code>[\s\S]*?<\/code>)/)
+    .map((segment, index) =>
+      index % 2 === 1
+        ? segment
+        : segment.replace(/\[(\d+)\](?!\()/g, (match, number) => {
+            const citation = citations[Number(number) - 1];
+            if (!citation || !isWebUrl(citation.url)) {
+              return match;
+            }
+            const title = escapeHtml(citation.title || citation.url);
+            return `<a class="citation-ref" href="${escapeHtml(citation.url)}" title="${title}">[${number}]</a>`;
+          })
+    )
+    .join("");
 }
 
 function wrapInParagraphs(content) {
@@ -417,18 +695,26 @@ function insertSuggestion(text) {
   }
 }
 
+function getRawMessageContent(button) {
+  const message = button.closest(".message");
+  return (
+    rawMessageContent.get(message) ??
+    message.querySelector(".message-content").textContent
+  );
+}
+
 function copyMessage(button) {
-  const messageContent = button
-    .closest(".message")
-    .querySelector(".message-content").textContent;
-  vscode.postMessage({ type: "copyToClipboard", value: messageContent });
+  vscode.postMessage({
+    type: "copyToClipboard",
+    value: getRawMessageContent(button),
+  });
 }
 
 function insertAtCursor(button) {
-  const messageContent = button
-    .closest(".message")
-    .querySelector(".message-content").textContent;
-  vscode.postMessage({ type: "insertAtCursor", value: messageContent });
+  vscode.postMessage({
+    type: "insertAtCursor",
+    value: getRawMessageContent(button),
+  });
 }
 
 function autoDetectContext() {
@@ -495,6 +781,10 @@ function createContextItem(context) {
       icon.className = "context-icon codicon codicon-selection";
       label.textContent = `${context.fileName} (${context.lineCount} lines)`;
       break;
+    case "folder":
+      icon.className = "context-icon codicon codicon-folder";
+      label.textContent = context.name || context.path;
+      break;
     case "workspace":
       icon.textContent = "📁";
       label.textContent = "Workspace";
@@ -518,6 +808,119 @@ function removeContextItem(element, contextId) {
   }
 }
 
+// Session history
+function toggleSessionPanel() {
+  const open = sessionPanel.hidden;
+  sessionPanel.hidden = !open;
+  document.getElementById("historyBtn").setAttribute("aria-expanded", open);
+  if (open) {
+    sessionSearch.value = "";
+    renderSessionList(sessions);
+    sessionSearch.focus();
+  }
+}
+
+function handleSessionSearch() {
+  clearTimeout(sessionSearchTimer);
+  const query = sessionSearch.value.trim();
+  if (!query) {
+    renderSessionList(sessions);
+    return;
+  }
+  sessionSearchTimer = setTimeout(() => {
+    vscode.postMessage({ type: "searchSessions", query });
+  }, 200);
+}
+
+function handleSessionListClick(e) {
+  const item = e.target.closest(".session-item");
+  if (!item) {
+    return;
+  }
+  const sessionId = item.dataset.sessionId;
+  const action = e.target.closest("[data-action]");
+  if (action) {
+    e.stopPropagation();
+    vscode.postMessage({ type: action.dataset.action, sessionId });
+    return;
+  }
+  vscode.postMessage({ type: "selectSession", value: sessionId });
+  sessionPanel.hidden = true;
+  document.getElementById("historyBtn").setAttribute("aria-expanded", false);
+}
+
+function renderSessionList(items) {
+  sessionList.innerHTML = "";
+  if (items.length === 0) {
+    const empty = document.createElement("li");
+    empty.className = "session-empty";
+    empty.textContent = sessionSearch.value.trim()
+      ? "No matching chats"
+      : "No chat history";
+    sessionList.appendChild(empty);
+    return;
+  }
+  items.forEach((session) => {
+    const item = document.createElement("li");
+    item.className = "session-item";
+    item.dataset.sessionId = session.id;
+    item.classList.toggle("active", session.id === currentSessionId);
+
+    const text = document.createElement("div");
+    text.className = "session-text";
+    const title = document.createElement("div");
+    title.className = "session-item-title";
+    title.textContent = session.title;
+    if (session.pinned) {
+      const pin = document.createElement("i");
+      pin.className = "codicon codicon-pinned";
+      title.prepend(pin);
+    }
+    const detail = document.createElement("div");
+    detail.className = "session-item-detail";
+    detail.textContent =
+      session.snippet ??
+      (session.matchCount !== undefined
+        ? "Title match"
+        : `${session.messageCount} messages · ${new Date(session.updatedAt).toLocaleString()}`);
+    text.append(title, detail);
+
+    const actions = document.createElement("div");
+    actions.className = "session-actions";
+    [
+      ["togglePinSession", session.pinned ? "pinned" : "pin", "Pin / Unpin"],
+      ["renameSession", "edit", "Rename"],
+      ["duplicateSession", "copy", "Duplicate"],
+      ["deleteSession", "trash", "Delete"],
+    ].forEach(([type, icon, label]) => {
+      const button = document.createElement("button");
+      button.className = "session-action";
+      button.dataset.action = type;
+      button.title = label;
+      button.setAttribute("aria-label", label);
+      button.innerHTML = `<i class="codicon codicon-${icon}"></i>`;
+      actions.appendChild(button);
+    });
+
+    item.append(text, actions);
+    sessionList.appendChild(item);
+  });
+}
+
+function updateSessions(newSessions, sessionId) {
+  sessions = newSessions;
+  currentSessionId = sessionId;
+  const current = sessions.find((session) => session.id === sessionId);
+  document.getElementById("sessionTitle").textContent = current
+    ? current.title
+    : "New chat";
+  if (!sessionPanel.hidden && !sessionSearch.value.trim()) {
+    renderSessionList(sessions);
+  } else if (!sessionPanel.hidden) {
+    handleSessionSearch();
+  }
+}
+
 // VS Code message handling
 function handleVSCodeMessage(event) {
   const {
@@ -528,6 +931,17 @@ function handleVSCodeMessage(event) {
     messages: newMessages,
     showTyping,
     messageId,
+    interrupted,
+    citations,
+    sessions: newSessions,
+    currentSessionId: sessionId,
+    query,
+    results,
+    modes,
+    currentMode,
+    currentModel,
+    mode,
+    model,
   } = event.data;
   switch (type) {
     case "response":
@@ -545,7 +959,11 @@ function handleVSCodeMessage(event) {
       break;
     case "streamEnd":
       setGeneratingState(false);
-      finishStreamingMessage(messageId || "streaming");
+      finishStreamingMessage(
+        messageId || "streaming",
+        interrupted,
+        citations || []
+      );
       break;
     case "error":
       setGeneratingState(false);
@@ -575,6 +993,9 @@ function handleVSCodeMessage(event) {
       break;
     case "updateChat":
       updateChatMessages(newMessages || []);
+      updateSessions(newSessions || [], sessionId);
+      updateModes(modes || [], currentMode);
+      selectModel(currentModel);
       if (showTyping) {
         showTypingIndicator(true);
       }
@@ -582,6 +1003,16 @@ function handleVSCodeMessage(event) {
     case "contextAttached":
       attachContext(context);
       break;
+    case "modeChanged":
+      updateModes(chatModes, mode);
+      selectModel(model);
+      break;
+    case "sessionSearchResults":
+      // Ignore results for a query the user has already changed
+      if (query === sessionSearch.value.trim()) {
+        renderSessionList(results || []);
+      }
+      break;
   }
 }
 
@@ -595,9 +1026,17 @@ function updateChatMessages(newMessages) {
   } else {
     welcomeMessage.style.display = "none";
     messages.forEach((message) => {
-      addMessage(message.role, message.content, message.timestamp, false);
+      addMessage(message.role, message.content, message.timestamp, false, {
+        interrupted: message.interrupted,
+        citations: message.citations,
+      });
     });
   }
+  // Keep in-flight responses visible when the host re-renders the session
+  streamingMessages.forEach((streamingMessage) => {
+    welcomeMessage.style.display = "none";
+    messagesContainer.insertBefore(streamingMessage.element, typingIndicator);
+  });
 }
 
 // Initialize when DOM is loaded
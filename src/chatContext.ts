@@ -0,0 +1,215 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { BudgetEntry, TokenBudget } from "./tokenBudget";
+
+export interface AttachedContext {
+  id: string;
+  type: "file" | "folder" | "selection";
+  name?: string;
+  /** Workspace-relative path shown in the chip tooltip. */
+  path?: string;
+  /** Files and folders are re-read on every turn; only the URI is stored. */
+  uri?: string;
+  /** Snapshot of the selected text. Unused for files and folders. */
+  content?: string;
+  language?: string;
+  extension?: string;
+  iconUri?: string;
+  lineCount?: number;
+  startLine?: number;
+  endLine?: number;
+  fileName?: string;
+}
+
+interface ContextPickItem extends vscode.QuickPickItem {
+  uri?: vscode.Uri;
+  contextType?: "file" | "folder";
+}
+
+const MAX_FOLDER_ENTRIES = 200;
+
+function createContextId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+}
+
+export function createFileContext(
+  uri: vscode.Uri,
+  language?: string
+): AttachedContext {
+  const name = path.basename(uri.fsPath);
+  return {
+    id: createContextId(),
+    type: "file",
+    name,
+    path: vscode.workspace.asRelativePath(uri),
+    uri: uri.toString(),
+    language,
+    extension: path.extname(name).replace(/^\./, ""),
+  };
+}
+
+export function createFolderContext(uri: vscode.Uri): AttachedContext {
+  return {
+    id: createContextId(),
+    type: "folder",
+    name: path.basename(uri.fsPath),
+    path: vscode.workspace.asRelativePath(uri),
+    uri: uri.toString(),
+  };
+}
+
+export function createSelectionContext(
+  editor: vscode.TextEditor
+): AttachedContext | undefined {
+  const { document, selection } = editor;
+  if (selection.isEmpty) {
+    return undefined;
+  }
+  const startLine = selection.start.line + 1;
+  const endLine = selection.end.line + 1;
+  return {
+    id: createContextId(),
+    type: "selection",
+    name: path.basename(document.fileName),
+    path: vscode.workspace.asRelativePath(document.uri),
+    uri: document.uri.toString(),
+    content: document.getText(selection),
+    language: document.languageId,
+    fileName: path.basename(document.fileName),
+    startLine,
+    endLine,
+    lineCount: endLine - startLine + 1,
+  };
+}
+
+/**
+ * Quick Pick over open editors, workspace files and the folders that contain
+ * them. Returns the chosen items as new context entries.
+ */
+export async function pickContext(): Promise<AttachedContext[]> {
+  const openEditors = new Map<string, vscode.Uri>();
+  for (const group of vscode.window.tabGroups.all) {
+    for (const tab of group.tabs) {
+      if (tab.input instanceof vscode.TabInputText) {
+        openEditors.set(tab.input.uri.toString(), tab.input.uri);
+      }
+    }
+  }
+
+  const files = await vscode.workspace.findFiles(
+    "**/*",
+    "{**/node_modules/**,**/.git/**,**/out/**,**/dist/**}",
+    2000
+  );
+  const folders = new Map<string, vscode.Uri>();
+  for (const file of files) {
+    const folder = vscode.Uri.joinPath(file, "..");
+    if (vscode.workspace.getWorkspaceFolder(folder)) {
+      folders.set(folder.toString(), folder);
+    }
+  }
+
+  const toItem = (
+    uri: vscode.Uri,
+    contextType: "file" | "folder"
+  ): ContextPickItem => ({
+    label: `$(${contextType === "file" ? "file" : "folder"}) ${path.basename(uri.fsPath)}`,
+    description: vscode.workspace.asRelativePath(uri),
+    uri,
+    contextType,
+  });
+
+  const items: ContextPickItem[] = [
+    { label: "Open Editors", kind: vscode.QuickPickItemKind.Separator },
+    ...[...openEditors.values()].map((uri) => toItem(uri, "file")),
+    { label: "Files", kind: vscode.QuickPickItemKind.Separator },
+    ...files
+      .filter((file) => !openEditors.has(file.toString()))
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map((uri) => toItem(uri, "file")),
+    { label: "Folders", kind: vscode.QuickPickItemKind.Separator },
+    ...[...folders.values()]
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map((uri) => toItem(uri, "folder")),
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: "Attach files or folders to the chat",
+    canPickMany: true,
+    matchOnDescription: true,
+  });
+
+  return (selected || [])
+    .filter((item) => item.uri)
+    .map((item) =>
+      item.contextType === "folder"
+        ? createFolderContext(item.uri!)
+        : createFileContext(item.uri!)
+    );
+}
+
+/**
+ * Renders the attached context as a prompt preamble within `share` of the
+ * budget. Files are read fresh so later turns see the current contents,
+ * including unsaved edits.
+ */
+export async function resolveContextPrompt(
+  items: AttachedContext[],
+  budget: TokenBudget,
+  share = 1
+): Promise<string> {
+  const sections: BudgetEntry[] = [];
+
+  for (const ctx of items) {
+    switch (ctx.type) {
+      case "selection":
+        sections.push({
+          label: `${ctx.fileName} (lines ${ctx.startLine}-${ctx.endLine})`,
+          text: `Selected code from ${ctx.fileName} (lines ${ctx.startLine}-${ctx.endLine}):\n\`\`\`${ctx.language || ""}\n${ctx.content}\n\`\`\``,
+          strategy: "middle",
+        });
+        break;
+      case "file":
+        try {
+          const document = await vscode.workspace.openTextDocument(
+            vscode.Uri.parse(ctx.uri!)
+          );
+          sections.push({
+            label: ctx.path || ctx.name || "file",
+            text: `File: ${ctx.path} (${document.languageId})\n\`\`\`${document.languageId}\n${document.getText()}\n\`\`\``,
+            strategy: "outline",
+          });
+        } catch {
+          sections.push({
+            label: ctx.path || "file",
+            text: `File: ${ctx.path} (could not be read)`,
+            strategy: "head",
+          });
+        }
+        break;
+      case "folder": {
+        const folderUri = vscode.Uri.parse(ctx.uri!);
+        const files = await vscode.workspace.findFiles(
+          new vscode.RelativePattern(folderUri, "**/*"),
+          "**/node_modules/**",
+          MAX_FOLDER_ENTRIES
+        );
+        const listing = files
+          .map((file) => vscode.workspace.asRelativePath(file))
+          .sort()
+          .join("\n");
+        sections.push({
+          label: `${ctx.path}/`,
+          text: `Folder: ${ctx.path} (${files.length} files${files.length === MAX_FOLDER_ENTRIES ? ", truncated" : ""})\n${listing}`,
+          strategy: "head",
+        });
+        break;
+      }
+    }
+  }
+
+  return budget
+    .fitAll(sections, share)
+    .filter((section) => section.length > 0)
+    .join("\n---\n");
+}
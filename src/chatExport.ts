@@ -0,0 +1,242 @@
+import { ChatMessage, ChatSession } from "./chatProvider";
+import {
+  formatSourcesMarkdown,
+  PerplexitySearchResult,
+} from "./perplexityClient";
+
+export type ChatExportFormat = "markdown" | "json" | "html";
+
+export const EXPORT_FILE_EXTENSIONS: Record<ChatExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+};
+
+const EXPORT_VERSION = 1;
+
+interface ChatExportFile {
+  version: number;
+  exportedAt: string;
+  sessions: ChatSession[];
+}
+
+function authorOf(message: ChatMessage): string {
+  return message.role === "user" ? "You" : "Perplexity AI";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function toMarkdown(sessions: ChatSession[]): string {
+  return sessions
+    .map((session) => {
+      const messages = session.messages.map((message) => {
+        const sources = formatSourcesMarkdown(
+          message.citations ?? [],
+          "**Sources**"
+        );
+        return [
+          `### ${authorOf(message)} — ${message.timestamp.toLocaleString()}${message.interrupted ? " (interrupted)" : ""}`,
+          "",
+          message.content,
+          ...(sources ? ["", sources.trimEnd()] : []),
+        ].join("\n");
+      });
+      return [
+        `# ${session.title}`,
+        "",
+        `_Created ${session.createdAt.toLocaleString()} · ${session.messages.length} messages_`,
+        "",
+        messages.join("\n\n---\n\n"),
+      ].join("\n");
+    })
+    .join("\n\n");
+}
+
+/** Minimal markdown rendering: fenced code blocks, inline code and links. */
+function renderContentHtml(content: string): string {
+  return content
+    .split(/(```[^\n`]*\n[\s\S]*?```)/)
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        const [, language, code] = part.match(/```([^\n`]*)\n([\s\S]*?)```/)!;
+        return `<pre><code class="language-${escapeHtml(language.trim())}">${escapeHtml(code.replace(/\n$/, ""))}</code></pre>`;
+      }
+      return part
+        .split(/\n{2,}/)
+        .filter((paragraph) => paragraph.trim())
+        .map(
+          (paragraph) =>
+            `<p>${escapeHtml(paragraph)
+              .replace(/`([^`\n]+)`/g, "<code>$1</code>")
+              .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+              .replace(
+                /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g,
+                '<a href="$2">$1</a>'
+              )
+              .replace(/\n/g, "<br>")}</p>`
+        )
+        .join("\n");
+    })
+    .join("\n");
+}
+
+function toHtml(sessions: ChatSession[]): string {
+  const body = sessions
+    .map((session) => {
+      const messages = session.messages
+        .map((message) => {
+          const sources = (message.citations ?? [])
+            .map((source) =>
+              // Imported sources may carry any scheme; only web links are live
+              isWebUrl(source.url)
+                ? `<li><a href="${escapeHtml(source.url)}">${escapeHtml(source.title)}</a></li>`
+                : `<li>${escapeHtml(source.title)} (${escapeHtml(source.url)})</li>`
+            )
+            .join("");
+          return `<article class="message ${message.role}">
+  <header><strong>${authorOf(message)}</strong> <time datetime="${message.timestamp.toISOString()}">${escapeHtml(message.timestamp.toLocaleString())}</time>${message.interrupted ? ' <span class="note">interrupted</span>' : ""}</header>
+  ${renderContentHtml(message.content)}
+  ${sources ? `<footer><strong>Sources</strong><ol>${sources}</ol></footer>` : ""}
+</article>`;
+        })
+        .join("\n");
+      return `<section>
+<h1>${escapeHtml(session.title)}</h1>
+<p class="meta">Created ${escapeHtml(session.createdAt.toLocaleString())} · ${session.messages.length} messages</p>
+${messages}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(sessions.length === 1 ? sessions[0].title : "Perplexity AI Chats")}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #1f2328; }
+  section { margin-bottom: 3rem; }
+  .meta, time, .note { color: #656d76; font-size: 0.85em; }
+  .message { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .message.user { background: #f6f8fa; }
+  pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem; overflow-x: auto; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+  footer { border-top: 1px solid #d0d7de; margin-top: 0.75rem; padding-top: 0.5rem; font-size: 0.9em; }
+  a { color: #0969da; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+export function serializeSessions(
+  sessions: ChatSession[],
+  format: ChatExportFormat
+): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(sessions);
+    case "html":
+      return toHtml(sessions);
+    case "json": {
+      const file: ChatExportFile = {
+        version: EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        sessions,
+      };
+      return JSON.stringify(file, null, 2);
+    }
+  }
+}
+
+function parseCitations(value: unknown): PerplexitySearchResult[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.flatMap((entry) => {
+    const source = entry as Partial<PerplexitySearchResult> | null;
+    return typeof source?.url === "string" && typeof source.title === "string"
+      ? [
+          {
+            title: source.title,
+            url: source.url,
+            date: typeof source.date === "string" ? source.date : undefined,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Reads a JSON export back into sessions. Accepts the export envelope, a bare
+ * session array or a single session, and throws on anything else. Only the
+ * known fields are kept: attached context is dropped so an imported file
+ * cannot make the next turn read arbitrary local files.
+ */
+export function parseSessionsJson(text: string): ChatSession[] {
+  const data = JSON.parse(text);
+  const raw: unknown[] = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.sessions)
+      ? data.sessions
+      : [data];
+
+  return raw.map((value, index) => {
+    const session = value as Partial<ChatSession> | null;
+    if (
+      !session ||
+      typeof session.id !== "string" ||
+      !Array.isArray(session.messages)
+    ) {
+      throw new Error(`Entry ${index + 1} is not a chat session`);
+    }
+    const messages = session.messages.map((message) => {
+      if (
+        (message.role !== "user" && message.role !== "assistant") ||
+        typeof message.content !== "string"
+      ) {
+        throw new Error(`Session "${session.title}" has an invalid message`);
+      }
+      return {
+        role: message.role,
+        content: message.content,
+        timestamp: new Date(message.timestamp),
+        interrupted: message.interrupted === true || undefined,
+        citations: parseCitations(message.citations),
+      };
+    });
+    const createdAt = new Date(session.createdAt ?? Date.now());
+    return {
+      id: session.id,
+      title:
+        typeof session.title === "string" && session.title
+          ? session.title
+          : "Imported chat",
+      createdAt,
+      updatedAt: session.updatedAt
+        ? new Date(session.updatedAt)
+        : (messages[messages.length - 1]?.timestamp ?? createdAt),
+      pinned: Boolean(session.pinned),
+      messages,
+    };
+  });
+}
@@ -0,0 +1,246 @@
+import * as vscode from "vscode";
+import { PerplexitySearchOptions } from "./perplexityClient";
+
+export interface ChatMode {
+  id: string;
+  name: string;
+  /** Codicon name shown next to the mode picker, e.g. `bug`. */
+  icon?: string;
+  systemPrompt: string;
+  /** Model selected when the mode is chosen; the picker can still override it. */
+  model?: string;
+  temperature?: number;
+  search?: PerplexitySearchOptions;
+  /** Lets the model read the workspace and propose multi-file edits. */
+  agent?: boolean;
+  source: "builtin" | "settings" | "workspace";
+}
+
+/** Workspace-relative file with modes shared through the repository. */
+export const CHAT_MODES_FILE = ".perplexity/modes.json";
+
+export const DEFAULT_CHAT_MODE = "ask";
+
+export const BUILTIN_CHAT_MODES: ChatMode[] = [
+  {
+    id: "ask",
+    name: "Ask",
+    icon: "comment-discussion",
+    systemPrompt:
+      "You are Perplexity AI, a helpful assistant inside VS Code. Answer questions accurately and concisely, building on the earlier turns of the conversation.",
+    source: "builtin",
+  },
+  {
+    id: "code",
+    name: "Code",
+    icon: "code",
+    systemPrompt:
+      "You are Perplexity AI, an expert programming assistant inside VS Code. Help the user write and improve code, provide complete examples in fenced code blocks, and build on code from earlier turns of the conversation.",
+    source: "builtin",
+  },
+  {
+    id: "debug",
+    name: "Debug",
+    icon: "bug",
+    systemPrompt:
+      "You are Perplexity AI, a debugging assistant inside VS Code. Identify the root cause of the problem the user describes and provide concrete fixes, taking earlier turns of the conversation into account.",
+    source: "builtin",
+  },
+  {
+    id: "agent",
+    name: "Agent",
+    icon: "robot",
+    systemPrompt:
+      "You are Perplexity AI, a coding agent inside VS Code. Investigate the user's workspace before changing anything, keep edits minimal and consistent with the surrounding code, and explain what you changed.",
+    agent: true,
+    source: "builtin",
+  },
+];
+
+const RECENCY_FILTERS = ["hour", "day", "week", "month", "year"];
+const CONTEXT_SIZES = ["low", "medium", "high"];
+const SEARCH_FLAGS = [
+  "returnImages",
+  "returnRelatedQuestions",
+  "disableSearch",
+] as const;
+
+/** Copies the known search options, or returns undefined if any is invalid. */
+function parseSearch(value: unknown): PerplexitySearchOptions | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  const raw = value as Record<string, unknown>;
+  const search: PerplexitySearchOptions = {};
+  if (raw.recencyFilter !== undefined) {
+    if (!RECENCY_FILTERS.includes(raw.recencyFilter as string)) {
+      return undefined;
+    }
+    search.recencyFilter =
+      raw.recencyFilter as PerplexitySearchOptions["recencyFilter"];
+  }
+  if (raw.contextSize !== undefined) {
+    if (!CONTEXT_SIZES.includes(raw.contextSize as string)) {
+      return undefined;
+    }
+    search.contextSize =
+      raw.contextSize as PerplexitySearchOptions["contextSize"];
+  }
+  if (raw.domainFilter !== undefined) {
+    if (
+      !Array.isArray(raw.domainFilter) ||
+      !raw.domainFilter.every((domain) => typeof domain === "string")
+    ) {
+      return undefined;
+    }
+    search.domainFilter = raw.domainFilter;
+  }
+  for (const flag of SEARCH_FLAGS) {
+    if (raw[flag] !== undefined) {
+      if (typeof raw[flag] !== "boolean") {
+        return undefined;
+      }
+      search[flag] = raw[flag];
+    }
+  }
+  return search;
+}
+
+/**
+ * Validates a user-supplied mode. Returns an error message for entries that
+ * cannot be used.
+ */
+function parseMode(
+  value: unknown,
+  source: ChatMode["source"]
+): ChatMode | string {
+  const raw = value as Partial<ChatMode> | null;
+  if (!raw || typeof raw !== "object") {
+    return "mode must be an object";
+  }
+  if (typeof raw.id !== "string" || !raw.id.trim()) {
+    return "mode is missing an `id`";
+  }
+  if (typeof raw.systemPrompt !== "string" || !raw.systemPrompt.trim()) {
+    return `mode "${raw.id}" is missing a \`systemPrompt\``;
+  }
+  if (
+    raw.temperature !== undefined &&
+    (typeof raw.temperature !== "number" ||
+      raw.temperature < 0 ||
+      raw.temperature > 2)
+  ) {
+    return `mode "${raw.id}" has an invalid \`temperature\``;
+  }
+
+  const search = raw.search === undefined ? undefined : parseSearch(raw.search);
+  if (raw.search !== undefined && !search) {
+    return `mode "${raw.id}" has invalid \`search\` options`;
+  }
+
+  return {
+    id: raw.id.trim(),
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name : raw.id,
+    icon: typeof raw.icon === "string" ? raw.icon : undefined,
+    systemPrompt: raw.systemPrompt,
+    model: typeof raw.model === "string" ? raw.model : undefined,
+    temperature: raw.temperature,
+    search,
+    agent: raw.agent === true,
+    source,
+  };
+}
+
+async function readWorkspaceModes(): Promise<
+  Array<{ value: unknown; file: string }>
+> {
+  const entries: Array<{ value: unknown; file: string }> = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const uri = vscode.Uri.joinPath(folder.uri, CHAT_MODES_FILE);
+    let text: string;
+    try {
+      text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString(
+        "utf8"
+      );
+    } catch {
+      continue;
+    }
+    const file = vscode.workspace.asRelativePath(uri);
+    try {
+      const data = JSON.parse(text);
+      const modes: unknown[] = Array.isArray(data) ? data : (data?.modes ?? []);
+      modes.forEach((value) => entries.push({ value, file }));
+    } catch (error) {
+      entries.push({
+        value: null,
+        file: `${file} (${error instanceof Error ? error.message : error})`,
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Built-in modes, then `perplexityAI.chatModes`, then `.perplexity/modes.json`
+ * from each workspace folder. A later definition with the same id replaces
+ * the earlier one, so built-ins can be customised from settings. Workspace
+ * files are only read in trusted workspaces and cannot replace built-ins.
+ */
+export async function loadChatModes(): Promise<ChatMode[]> {
+  const modes = new Map(BUILTIN_CHAT_MODES.map((mode) => [mode.id, mode]));
+  const problems: string[] = [];
+
+  const fromSettings = vscode.workspace
+    .getConfiguration("perplexityAI")
+    .get<unknown[]>("chatModes", []);
+  for (const value of fromSettings) {
+    const mode = parseMode(value, "settings");
+    if (typeof mode === "string") {
+      problems.push(`perplexityAI.chatModes: ${mode}`);
+    } else {
+      modes.set(mode.id, mode);
+    }
+  }
+
+  const workspaceModes = vscode.workspace.isTrusted
+    ? await readWorkspaceModes()
+    : [];
+  for (const { value, file } of workspaceModes) {
+    const mode = parseMode(value, "workspace");
+    if (typeof mode === "string") {
+      problems.push(`${file}: ${mode}`);
+    } else if (BUILTIN_CHAT_MODES.some((builtin) => builtin.id === mode.id)) {
+      problems.push(
+        `${file}: mode "${mode.id}" would replace a built-in mode; use another id`
+      );
+    } else {
+      modes.set(mode.id, mode);
+    }
+  }
+
+  if (problems.length > 0) {
+    vscode.window.showWarningMessage(
+      `Some chat modes were ignored: ${problems.join("; ")}`
+    );
+  }
+  return [...modes.values()];
+}
+
+/** Fires when the settings or workspace files defining modes change. */
+export function watchChatModes(onChange: () => void): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    `**/${CHAT_MODES_FILE}`
+  );
+  return vscode.Disposable.from(
+    watcher,
+    watcher.onDidCreate(onChange),
+    watcher.onDidChange(onChange),
+    watcher.onDidDelete(onChange),
+    vscode.workspace.onDidGrantWorkspaceTrust(onChange),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("perplexityAI.chatModes")) {
+        onChange();
+      }
+    })
+  );
+}
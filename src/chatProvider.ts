@@ -1,9 +1,44 @@
+import * as fs from "fs";
+import * as os from "os";
 import * as vscode from "vscode";
+import {
+  AttachedContext,
+  createFileContext,
+  createSelectionContext,
+  pickContext,
+  resolveContextPrompt,
+} from "./chatContext";
+import {
+  ChatExportFormat,
+  EXPORT_FILE_EXTENSIONS,
+  parseSessionsJson,
+  serializeSessions,
+} from "./chatExport";
+import {
+  BUILTIN_CHAT_MODES,
+  ChatMode,
+  DEFAULT_CHAT_MODE,
+  loadChatModes,
+  watchChatModes,
+} from "./chatModes";
+import { CodeBlockApplier, ProposedChange } from "./codeBlockApplier";
+import {
+  getCompletionSources,
+  PerplexityClient,
+  PerplexityMessage,
+  PerplexitySearchResult,
+} from "./perplexityClient";
+import { TokenBudget } from "./tokenBudget";
+import { WorkspaceAgent } from "./workspaceAgent";
 
 export interface ChatMessage {
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
+  /** Set when generation was stopped before the model finished. */
+  interrupted?: boolean;
+  /** Sources referenced by `[n]` markers in the content, in citation order. */
+  citations?: PerplexitySearchResult[];
 }
 
 export interface ChatSession {
@@ -11,23 +46,28 @@ export interface ChatSession {
   title: string;
   messages: ChatMessage[];
   createdAt: Date;
+  /** Time of the latest message, used to order the history. */
+  updatedAt: Date;
+  /** Pinned sessions are listed before all others. */
+  pinned: boolean;
+  /** Context included with every turn of this session. */
+  attachedContext?: AttachedContext[];
 }
 
-interface AttachedContext {
-  id: string;
-  type: "file" | "selection";
-  name?: string;
-  path?: string;
-  content: string;
-  language?: string;
-  extension?: string;
-  iconUri?: string;
-  lineCount?: number;
-  startLine?: number;
-  endLine?: number;
-  fileName?: string;
+export interface SessionSearchResult {
+  session: ChatSession;
+  /** Text around the first match, or undefined for title-only matches. */
+  snippet?: string;
+  matchCount: number;
 }
 
+const CHAT_HISTORY_KEY = "perplexity-chat-history";
+const CHAT_HISTORY_VERSION_KEY = "perplexity-chat-history-version";
+/**
+ * Version 1 sessions had no `updatedAt`/`pinned`; version 2 added them.
+ */
+const CHAT_HISTORY_VERSION = 2;
+
 export class PerplexityCustomChatProvider
   implements vscode.WebviewViewProvider
 {
@@ -36,21 +76,27 @@ export class PerplexityCustomChatProvider
   private view?: vscode.WebviewView;
   private sessions: ChatSession[] = [];
   private currentSessionId?: string;
-  private currentMode: "ask" | "code" | "debug" = "ask";
-  private currentModel = "sonar";
+  private modes: ChatMode[] = BUILTIN_CHAT_MODES;
+  private currentMode = DEFAULT_CHAT_MODE;
+  private currentModel: string;
   private abortController?: AbortController;
-  private attachedContext: AttachedContext[] = [];
+  /** Context attached before the first message creates the session. */
+  private pendingContext: AttachedContext[] = [];
+  private readonly agent: WorkspaceAgent;
 
   constructor(
     private readonly extensionUri: vscode.Uri,
-    private readonly context: vscode.ExtensionContext
+    private readonly context: vscode.ExtensionContext,
+    private readonly client: PerplexityClient,
+    private readonly codeBlockApplier: CodeBlockApplier
   ) {
+    this.agent = new WorkspaceAgent(client);
     this.loadChatHistory();
     const config = vscode.workspace.getConfiguration("perplexityAI");
-    this.currentMode = config.get("currentMode", "ask") as
-      | "ask"
-      | "code"
-      | "debug";
+    this.currentMode = config.get("currentMode", DEFAULT_CHAT_MODE);
+    this.currentModel = config.get("model", "sonar");
+    this.reloadModes();
+    context.subscriptions.push(watchChatModes(() => this.reloadModes()));
   }
 
   public resolveWebviewView(
@@ -83,9 +129,64 @@ export class PerplexityCustomChatProvider
           case "selectSession":
             this.selectSession(data.value);
             break;
+          case "renameSession":
+            await this.renameSession(data.sessionId);
+            break;
+          case "deleteSession":
+            await this.deleteSession(data.sessionId);
+            break;
+          case "togglePinSession":
+            await this.togglePinSession(data.sessionId);
+            break;
+          case "duplicateSession":
+            await this.duplicateSession(data.sessionId);
+            break;
+          case "searchSessions":
+            this.view?.webview.postMessage({
+              type: "sessionSearchResults",
+              query: data.query,
+              results: this.searchSessions(data.query).map((result) => ({
+                id: result.session.id,
+                title: result.session.title,
+                pinned: result.session.pinned,
+                snippet: result.snippet,
+                matchCount: result.matchCount,
+              })),
+            });
+            break;
           case "modeChange":
             this.handleModeChange(data.mode);
             break;
+          case "modelChange":
+            this.currentModel = data.model;
+            break;
+          case "autoDetectContext":
+            this.attachActiveFile();
+            break;
+          case "requestAdditionalContext":
+            await this.requestAdditionalContext();
+            break;
+          case "addSelection":
+            this.addSelectionContext();
+            break;
+          case "removeContext":
+            this.removeContext(data.contextId);
+            break;
+          case "copyToClipboard":
+            await vscode.env.clipboard.writeText(data.value);
+            vscode.window.setStatusBarMessage("Copied to clipboard", 2000);
+            break;
+          case "insertAtCursor":
+            await this.codeBlockApplier.insertAtCursor(data.value);
+            break;
+          case "applyCodeBlock":
+            await this.applyCodeBlock(data.code, data.fileHint);
+            break;
+          case "openExternal":
+            if (/^https?:\/\//.test(data.url)) {
+              vscode.env.openExternal(vscode.Uri.parse(data.url));
+            }
+            break;
         }
       } catch (err) {
         console.error("Error handling webview message:", err);
@@ -102,10 +203,14 @@ export class PerplexityCustomChatProvider
     if (this.abortController) {
       this.abortController.abort();
     }
-    this.abortController = new AbortController();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    const messageId = Date.now().toString(36);
+    let partial = "";
+    let streaming = false;
 
     try {
-      const apiKey = await this.getApiKey();
+      const apiKey = await this.client.getApiKey();
       if (!apiKey) {
         this.view?.webview.postMessage({
           type: "error",
@@ -114,44 +219,96 @@ export class PerplexityCustomChatProvider
         return;
       }
 
-      this.view?.webview.postMessage({ type: "showTyping" });
+      const mode = this.getCurrentMode();
+      const systemPrompt = mode.systemPrompt;
+      const budget = TokenBudget.forModel(this.currentModel);
+      budget.reserve(systemPrompt);
+      budget.reserve(message);
 
       let fullMessage = message;
-      if (this.attachedContext.length > 0) {
-        const contextStrings = this.attachedContext.map((ctx) =>
-          ctx.type === "file"
-            ? `File: ${ctx.name} (${ctx.language})\n\`\`\`${ctx.language}\n${ctx.content}\n\`\`\``
-            : `Selected code from ${ctx.fileName} (lines ${ctx.startLine}-${ctx.endLine}):\n\`\`\`\n${ctx.content}\n\`\`\``
+      const attachedContext = this.getAttachedContext();
+      if (attachedContext.length > 0) {
+        // Attachments may use most of the budget; history gets the rest
+        const contextPrompt = await resolveContextPrompt(
+          attachedContext,
+          budget,
+          0.75
         );
-        fullMessage = `Context:\n${contextStrings.join("\n---\n")}\n\nQuestion: ${message}`;
+        fullMessage = `Context:\n${contextPrompt}\n\nQuestion: ${message}`;
       }
 
-      let modePrompt = "";
-      switch (this.currentMode) {
-        case "ask":
-          modePrompt = "Answer this question:";
-          break;
-        case "code":
-          modePrompt = "Help me write/improve code. Provide complete examples:";
-          break;
-        case "debug":
-          modePrompt = "Debug this issue. Identify problems and provide fixes:";
-          break;
+      const session = this.addUserMessage(message);
+      const requestMessages = this.buildRequestMessages(
+        session,
+        systemPrompt,
+        fullMessage,
+        budget
+      );
+      budget.reportTrimmed();
+      this.view?.webview.postMessage({ type: "streamStart", messageId });
+      streaming = true;
+
+      const requestOptions = {
+        model: this.currentModel,
+        temperature: mode.temperature,
+        search: mode.search,
+        signal: abortController.signal,
+      };
+      const onDelta = (delta: string) => {
+        partial += delta;
+        this.view?.webview.postMessage({
+          type: "streamChunk",
+          messageId,
+          content: delta,
+        });
+      };
+
+      if (mode.agent) {
+        const result = await this.agent.run(
+          requestMessages,
+          requestOptions,
+          onDelta
+        );
+        this.view?.webview.postMessage({ type: "streamEnd", messageId });
+        streaming = false;
+        this.addAssistantMessage(
+          partial + (await this.reviewAgentChanges(result.changes))
+        );
+        return;
       }
 
-      const response = await this.queryPerplexityAPI(
-        apiKey,
-        `${modePrompt}\n\n${fullMessage}`,
-        this.abortController.signal
+      const completion = await this.client.stream(
+        requestMessages,
+        requestOptions,
+        onDelta
       );
 
-      this.view?.webview.postMessage({ type: "hideTyping" });
-      this.addUserMessage(message);
-      this.addAssistantMessage(response);
+      const citations = getCompletionSources(completion);
+      this.view?.webview.postMessage({
+        type: "streamEnd",
+        messageId,
+        citations,
+      });
+      this.addAssistantMessage(completion.content || "No response received", {
+        citations,
+      });
     } catch (err: unknown) {
-      this.view?.webview.postMessage({ type: "hideTyping" });
-      if (err instanceof Error && err.name === "AbortError") {
-        this.view?.webview.postMessage({ type: "responseStopped" });
+      if (streaming) {
+        this.view?.webview.postMessage({
+          type: "streamEnd",
+          messageId,
+          interrupted: true,
+        });
+      } else {
+        this.view?.webview.postMessage({ type: "hideTyping" });
+      }
+
+      if (abortController.signal.aborted) {
+        if (partial) {
+          this.addAssistantMessage(partial, { interrupted: true });
+        } else {
+          this.view?.webview.postMessage({ type: "responseStopped" });
+        }
       } else {
         this.view?.webview.postMessage({
           type: "error",
@@ -159,11 +316,68 @@ export class PerplexityCustomChatProvider
         });
       }
     } finally {
-      this.abortController = undefined;
+      if (this.abortController === abortController) {
+        this.abortController = undefined;
+      }
+    }
+  }
+
+  /**
+   * Lets the user review the agent's edits in a diff and applies the accepted
+   * set as one `WorkspaceEdit`. Returns a note for the chat transcript.
+   */
+  private async reviewAgentChanges(changes: ProposedChange[]): Promise<string> {
+    if (changes.length === 0) {
+      return "";
+    }
+    const files = changes
+      .map(
+        (change) =>
+          `- \`${vscode.workspace.asRelativePath(change.uri)}\`${change.isNew ? " (new)" : ""}`
+      )
+      .join("\n");
+    const applied = await this.codeBlockApplier.previewAndApply(
+      changes,
+      "Apply agent changes"
+    );
+    return applied
+      ? `\n\n**Applied changes:**\n${files}\n\nRun "Undo Last Applied Changes" to revert them.`
+      : `\n\n**Discarded proposed changes:**\n${files}`;
+  }
+
+  /**
+   * Builds the request from the session history so follow-up questions keep
+   * the earlier turns. The API expects strictly alternating user/assistant
+   * messages, so consecutive turns of the same role are merged.
+   */
+  private buildRequestMessages(
+    session: ChatSession,
+    systemPrompt: string,
+    latestContent: string,
+    budget: TokenBudget
+  ): PerplexityMessage[] {
+    const turns: PerplexityMessage[] = budget
+      .fitMessages("earlier messages", session.messages.slice(0, -1))
+      .map((message) => ({ role: message.role, content: message.content }));
+    turns.push({ role: "user", content: latestContent });
+
+    const merged: PerplexityMessage[] = [];
+    for (const turn of turns) {
+      const previous = merged[merged.length - 1];
+      if (previous && previous.role === turn.role) {
+        previous.content = `${previous.content}\n\n${turn.content}`;
+      } else if (merged.length > 0 || turn.role === "user") {
+        merged.push({ ...turn });
+      }
     }
+
+    return [{ role: "system", content: systemPrompt }, ...merged];
   }
 
-  private addAssistantMessage(content: string) {
+  private addAssistantMessage(
+    content: string,
+    details: Pick<ChatMessage, "interrupted" | "citations"> = {}
+  ) {
     this.ensureCurrentSession();
     const session = this.sessions.find((s) => s.id === this.currentSessionId);
     if (session) {
@@ -171,13 +385,16 @@ export class PerplexityCustomChatProvider
         role: "assistant",
         content,
         timestamp: new Date(),
+        ...(details.interrupted ? { interrupted: true } : {}),
+        ...(details.citations?.length ? { citations: details.citations } : {}),
       });
+      session.updatedAt = new Date();
       this.updateWebview();
       this.saveChatHistory();
     }
   }
 
-  private addUserMessage(content: string) {
+  private addUserMessage(content: string): ChatSession {
     this.ensureCurrentSession();
     let session = this.sessions.find((s) => s.id === this.currentSessionId);
     if (!session) {
@@ -186,16 +403,22 @@ export class PerplexityCustomChatProvider
         title: content.length > 50 ? content.substring(0, 50) + "..." : content,
         messages: [],
         createdAt: new Date(),
+        updatedAt: new Date(),
+        pinned: false,
+        attachedContext: this.pendingContext,
       };
+      this.pendingContext = [];
       this.sessions.unshift(session);
     }
     session.messages.push({ role: "user", content, timestamp: new Date() });
+    session.updatedAt = new Date();
     if (session.messages.length === 1) {
       session.title =
         content.length > 50 ? content.substring(0, 50) + "..." : content;
     }
     this.updateWebview();
     this.saveChatHistory();
+    return session;
   }
 
   private ensureCurrentSession() {
@@ -211,9 +434,243 @@ export class PerplexityCustomChatProvider
   public startNewChat() {
     this.currentSessionId =
       Date.now().toString() + Math.random().toString(36).substr(2, 9);
+    this.pendingContext = [];
     this.updateWebview();
   }
 
+  private getCurrentSession(): ChatSession | undefined {
+    return this.sessions.find((s) => s.id === this.currentSessionId);
+  }
+
+  private getAttachedContext(): AttachedContext[] {
+    return this.getCurrentSession()?.attachedContext ?? this.pendingContext;
+  }
+
+  private setAttachedContext(items: AttachedContext[]) {
+    const session = this.getCurrentSession();
+    if (session) {
+      session.attachedContext = items;
+      this.saveChatHistory();
+    } else {
+      this.pendingContext = items;
+    }
+    this.postAttachedContext();
+  }
+
+  private addContext(items: AttachedContext[]) {
+    const current = this.getAttachedContext();
+    const added = items.filter(
+      (item) =>
+        item.type === "selection" ||
+        !current.some(
+          (existing) => existing.type === item.type && existing.uri === item.uri
+        )
+    );
+    if (added.length > 0) {
+      this.setAttachedContext([...current, ...added]);
+    }
+  }
+
+  private attachActiveFile() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.uri.scheme !== "file") {
+      this.postAttachedContext();
+      return;
+    }
+    this.addContext([
+      createFileContext(editor.document.uri, editor.document.languageId),
+    ]);
+  }
+
+  private async requestAdditionalContext() {
+    this.addContext(await pickContext());
+  }
+
+  private addSelectionContext() {
+    const editor = vscode.window.activeTextEditor;
+    const selection = editor && createSelectionContext(editor);
+    if (!selection) {
+      vscode.window.showInformationMessage(
+        "Select some code in the editor to attach it."
+      );
+      return;
+    }
+    this.addContext([selection]);
+  }
+
+  private removeContext(contextId: string) {
+    this.setAttachedContext(
+      this.getAttachedContext().filter((item) => item.id !== contextId)
+    );
+  }
+
+  private async applyCodeBlock(code: string, fileHint?: string) {
+    let change: ProposedChange | undefined;
+    try {
+      change = await this.resolveApplyTarget(code, fileHint);
+    } catch (error) {
+      if (!(error instanceof vscode.CancellationError)) {
+        vscode.window.showErrorMessage(
+          `Could not apply code: ${error instanceof Error ? error.message : error}`
+        );
+      }
+      return;
+    }
+    if (!change) {
+      vscode.window.showWarningMessage(
+        "Could not determine which file to apply this code to. Open the target file or attach it to the chat."
+      );
+      return;
+    }
+    await this.codeBlockApplier.previewAndApply([change]);
+  }
+
+  /**
+   * Picks the target for a code block. A file named in the block's info
+   * string or first-line comment is replaced whole if the block looks like
+   * the whole file; a shorter block goes to a selection in that file, or
+   * replaces the file if the user confirms. Without a named file the most
+   * recent attached selection, the editor selection, a single attached file
+   * or the cursor is used.
+   */
+  private async resolveApplyTarget(
+    code: string,
+    fileHint?: string
+  ): Promise<ProposedChange | undefined> {
+    const [firstLine, ...rest] = code.split("\n");
+    const commentHint = firstLine.match(
+      /^\s*(?:\/\/|#|--|\/\*|<!--)\s*(?:file(?:name)?:\s*)?([\w./\\-]+\.\w+)\s*(?:\*\/|-->)?\s*$/i
+    )?.[1];
+    const hint = fileHint?.trim() || commentHint;
+    const hinted = hint ? await this.findWorkspaceFile(hint) : undefined;
+    // A comment naming the file is not part of it
+    const content =
+      hinted && commentHint && hint === commentHint ? rest.join("\n") : code;
+    if (hinted) {
+      const nonBlank = (text: string) =>
+        text.split("\n").filter((line) => line.trim()).length;
+      const current = (
+        await vscode.workspace.openTextDocument(hinted)
+      ).getText();
+      // A snippet that names its file must not replace the rest of it
+      if (nonBlank(content) >= nonBlank(current)) {
+        return { uri: hinted, newText: content.replace(/\n?$/, "\n") };
+      }
+    }
+
+    const target = await this.resolveContextTarget(content, hinted);
+    if (target || !hinted) {
+      return target;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      `This code block is shorter than ${vscode.workspace.asRelativePath(hinted)}. Replace the whole file with it?`,
+      { modal: true },
+      "Replace File"
+    );
+    if (!choice) {
+      throw new vscode.CancellationError();
+    }
+    return { uri: hinted, newText: content.replace(/\n?$/, "\n") };
+  }
+
+  /**
+   * Target from the attached context and the editor. With `within`, only a
+   * selection in that file qualifies.
+   */
+  private async resolveContextTarget(
+    code: string,
+    within?: vscode.Uri
+  ): Promise<ProposedChange | undefined> {
+    const inTarget = (uri: vscode.Uri) =>
+      !within || uri.toString() === within.toString();
+    const attached = this.getAttachedContext();
+    const selection = [...attached]
+      .reverse()
+      .find(
+        (ctx) =>
+          ctx.type === "selection" &&
+          ctx.uri &&
+          inTarget(vscode.Uri.parse(ctx.uri))
+      );
+    if (selection) {
+      const uri = vscode.Uri.parse(selection.uri!);
+      const document = await vscode.workspace.openTextDocument(uri);
+      const startLine = selection.startLine ?? 0;
+      const endLine = selection.endLine ?? 0;
+      if (
+        startLine < 1 ||
+        endLine < startLine ||
+        endLine > document.lineCount
+      ) {
+        throw new Error(
+          `the attached selection (lines ${startLine}-${endLine} of ${selection.fileName}) no longer fits the file; attach it again`
+        );
+      }
+      const start = new vscode.Position(startLine - 1, 0);
+      const end = document.lineAt(endLine - 1).range.end;
+      return { uri, newText: code, range: new vscode.Range(start, end) };
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (editor && !editor.selection.isEmpty && inTarget(editor.document.uri)) {
+      return {
+        uri: editor.document.uri,
+        newText: code,
+        range: editor.selection,
+      };
+    }
+
+    // A block meant for another file must not land in an unrelated one
+    if (within) {
+      return undefined;
+    }
+
+    const files = attached.filter((ctx) => ctx.type === "file" && ctx.uri);
+    if (files.length === 1) {
+      return { uri: vscode.Uri.parse(files[0].uri!), newText: code };
+    }
+
+    if (editor) {
+      return {
+        uri: editor.document.uri,
+        newText: code,
+        range: new vscode.Range(
+          editor.selection.active,
+          editor.selection.active
+        ),
+      };
+    }
+    return undefined;
+  }
+
+  private async findWorkspaceFile(
+    hint: string
+  ): Promise<vscode.Uri | undefined> {
+    const relative = hint.replace(/\\/g, "/").replace(/^\.?\//, "");
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const candidate = vscode.Uri.joinPath(folder.uri, relative);
+      try {
+        await vscode.workspace.fs.stat(candidate);
+        return candidate;
+      } catch {
+        // Not in this folder
+      }
+    }
+    const matches = await vscode.workspace.findFiles(
+      `**/${relative}`,
+      "**/node_modules/**",
+      2
+    );
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  private postAttachedContext() {
+    this.view?.webview.postMessage({
+      type: "contextAttached",
+      context: this.getAttachedContext(),
+    });
+  }
+
   public stopGeneration() {
     if (this.abortController) {
       this.abortController.abort();
@@ -234,24 +691,382 @@ export class PerplexityCustomChatProvider
       return;
     }
 
-    const items = this.sessions.map((session) => ({
-      label: session.title,
-      description: `${session.messages.length} messages`,
-      detail: `Created ${session.createdAt.toLocaleDateString()} ${session.createdAt.toLocaleTimeString()}`,
-      session,
-    }));
+    const buttons = {
+      pin: { iconPath: new vscode.ThemeIcon("pin"), tooltip: "Pin / Unpin" },
+      rename: { iconPath: new vscode.ThemeIcon("edit"), tooltip: "Rename" },
+      duplicate: {
+        iconPath: new vscode.ThemeIcon("copy"),
+        tooltip: "Duplicate",
+      },
+      delete: { iconPath: new vscode.ThemeIcon("trash"), tooltip: "Delete" },
+    };
+    type HistoryItem = vscode.QuickPickItem & { session?: ChatSession };
+
+    const quickPick = vscode.window.createQuickPick<HistoryItem>();
+    quickPick.placeholder = "Select a chat session to view";
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+
+    const refresh = () => {
+      const sessions = this.getSortedSessions();
+      const pinned = sessions.filter((session) => session.pinned);
+      const toItem = (session: ChatSession): HistoryItem => ({
+        label: `${session.pinned ? "$(pinned) " : ""}${session.title}`,
+        description: `${session.messages.length} messages`,
+        detail: `Updated ${session.updatedAt.toLocaleDateString()} ${session.updatedAt.toLocaleTimeString()}`,
+        buttons: Object.values(buttons),
+        session,
+      });
+      quickPick.items = [
+        ...(pinned.length > 0
+          ? [
+              { label: "Pinned", kind: vscode.QuickPickItemKind.Separator },
+              ...pinned.map(toItem),
+              { label: "Recent", kind: vscode.QuickPickItemKind.Separator },
+            ]
+          : []),
+        ...sessions.filter((session) => !session.pinned).map(toItem),
+      ];
+    };
+    refresh();
+
+    quickPick.onDidTriggerItemButton(async ({ item, button }) => {
+      const sessionId = item.session!.id;
+      if (button === buttons.pin) {
+        await this.togglePinSession(sessionId);
+      } else if (button === buttons.duplicate) {
+        await this.duplicateSession(sessionId);
+      } else {
+        quickPick.hide();
+        if (button === buttons.rename) {
+          await this.renameSession(sessionId);
+        } else {
+          await this.deleteSession(sessionId);
+        }
+        return;
+      }
+      refresh();
+    });
+    quickPick.onDidAccept(() => {
+      const [selected] = quickPick.selectedItems;
+      if (selected?.session) {
+        this.selectSession(selected.session.id);
+      }
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  }
+
+  /** Pinned sessions first, then most recently updated. */
+  private getSortedSessions(): ChatSession[] {
+    return [...this.sessions].sort(
+      (a, b) =>
+        Number(b.pinned) - Number(a.pinned) ||
+        b.updatedAt.getTime() - a.updatedAt.getTime()
+    );
+  }
+
+  private async resolveSession(
+    sessionId: string | undefined,
+    placeHolder: string
+  ): Promise<ChatSession | undefined> {
+    if (sessionId) {
+      return this.sessions.find((s) => s.id === sessionId);
+    }
+    if (this.sessions.length === 0) {
+      vscode.window.showInformationMessage("No chat history available.");
+      return undefined;
+    }
+    const selected = await vscode.window.showQuickPick(
+      this.getSortedSessions().map((session) => ({
+        label: `${session.pinned ? "$(pinned) " : ""}${session.title}`,
+        description:
+          session.id === this.currentSessionId
+            ? "current"
+            : `${session.messages.length} messages`,
+        session,
+      })),
+      { placeHolder, matchOnDescription: true }
+    );
+    return selected?.session;
+  }
+
+  public async renameSession(sessionId?: string) {
+    const session = await this.resolveSession(
+      sessionId,
+      "Select a chat session to rename"
+    );
+    if (!session) {
+      return;
+    }
+    const title = await vscode.window.showInputBox({
+      prompt: "Chat session name",
+      value: session.title,
+      validateInput: (value) =>
+        value.trim() ? undefined : "Name cannot be empty",
+    });
+    if (title?.trim()) {
+      session.title = title.trim();
+      this.saveChatHistory();
+      this.updateWebview();
+    }
+  }
+
+  public async deleteSession(sessionId?: string) {
+    const session = await this.resolveSession(
+      sessionId,
+      "Select a chat session to delete"
+    );
+    if (!session) {
+      return;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      `Delete chat "${session.title}"?`,
+      { modal: true },
+      "Delete"
+    );
+    if (choice !== "Delete") {
+      return;
+    }
+    this.sessions = this.sessions.filter((s) => s.id !== session.id);
+    if (this.currentSessionId === session.id) {
+      this.currentSessionId = this.getSortedSessions()[0]?.id;
+    }
+    this.saveChatHistory();
+    this.updateWebview();
+  }
+
+  public async togglePinSession(sessionId?: string) {
+    const session = await this.resolveSession(
+      sessionId,
+      "Select a chat session to pin or unpin"
+    );
+    if (session) {
+      session.pinned = !session.pinned;
+      this.saveChatHistory();
+      this.updateWebview();
+    }
+  }
+
+  public async duplicateSession(sessionId?: string) {
+    const session = await this.resolveSession(
+      sessionId,
+      "Select a chat session to duplicate"
+    );
+    if (!session) {
+      return;
+    }
+    const copy: ChatSession = {
+      ...session,
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      title: `${session.title} (copy)`,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      pinned: false,
+      messages: session.messages.map((message) => ({ ...message })),
+      attachedContext: session.attachedContext?.map((ctx) => ({ ...ctx })),
+    };
+    this.sessions.unshift(copy);
+    this.currentSessionId = copy.id;
+    this.saveChatHistory();
+    this.updateWebview();
+  }
+
+  /** Case-insensitive search across session titles and message contents. */
+  public searchSessions(query: string): SessionSearchResult[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+    const results: SessionSearchResult[] = [];
+    for (const session of this.getSortedSessions()) {
+      let snippet: string | undefined;
+      let matchCount = 0;
+      for (const message of session.messages) {
+        const haystack = message.content.toLowerCase();
+        let index = haystack.indexOf(needle);
+        if (index !== -1 && snippet === undefined) {
+          const start = Math.max(0, index - 40);
+          const end = Math.min(
+            message.content.length,
+            index + needle.length + 60
+          );
+          snippet = `${start > 0 ? "…" : ""}${message.content
+            .slice(start, end)
+            .replace(/\s+/g, " ")}${end < message.content.length ? "…" : ""}`;
+        }
+        while (index !== -1) {
+          matchCount++;
+          index = haystack.indexOf(needle, index + needle.length);
+        }
+      }
+      if (matchCount > 0 || session.title.toLowerCase().includes(needle)) {
+        results.push({ session, snippet, matchCount });
+      }
+    }
+    return results;
+  }
+
+  public async searchChats() {
+    if (this.sessions.length === 0) {
+      vscode.window.showInformationMessage("No chat history available.");
+      return;
+    }
+    type SearchItem = vscode.QuickPickItem & { session: ChatSession };
+    const quickPick = vscode.window.createQuickPick<SearchItem>();
+    quickPick.placeholder = "Search chat titles and messages";
+    quickPick.onDidChangeValue((value) => {
+      quickPick.items = this.searchSessions(value).map((result) => ({
+        label: result.session.title,
+        description: `${result.matchCount} match${result.matchCount === 1 ? "" : "es"}`,
+        detail: result.snippet,
+        alwaysShow: true,
+        session: result.session,
+      }));
+    });
+    quickPick.onDidAccept(() => {
+      const [selected] = quickPick.selectedItems;
+      if (selected) {
+        this.selectSession(selected.session.id);
+      }
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  }
+
+  public async exportCurrentChat() {
+    const session = this.getCurrentSession();
+    if (!session) {
+      vscode.window.showInformationMessage("No active chat session to export.");
+      return;
+    }
+    await this.exportSessions([session]);
+  }
+
+  public async exportChats() {
+    if (this.sessions.length === 0) {
+      vscode.window.showInformationMessage("No chat history available.");
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      this.sessions.map((session) => ({
+        label: session.title,
+        description: `${session.messages.length} messages`,
+        detail: `Created ${session.createdAt.toLocaleDateString()} ${session.createdAt.toLocaleTimeString()}`,
+        picked: session.id === this.currentSessionId,
+        session,
+      })),
+      {
+        placeHolder: "Select chat sessions to export",
+        canPickMany: true,
+        matchOnDescription: true,
+      }
+    );
+
+    if (selected && selected.length > 0) {
+      await this.exportSessions(selected.map((item) => item.session));
+    }
+  }
+
+  private async exportSessions(sessions: ChatSession[]) {
+    const format = await vscode.window.showQuickPick(
+      [
+        {
+          label: "Markdown",
+          description: "Readable transcript with sources",
+          format: "markdown" as ChatExportFormat,
+        },
+        {
+          label: "JSON",
+          description: "Full data, can be imported again",
+          format: "json" as ChatExportFormat,
+        },
+        {
+          label: "HTML",
+          description: "Standalone web page",
+          format: "html" as ChatExportFormat,
+        },
+      ],
+      { placeHolder: "Export format" }
+    );
+    if (!format) {
+      return;
+    }
 
-    const selected = await vscode.window.showQuickPick(items, {
-      placeHolder: "Select a chat session to view",
-      matchOnDescription: true,
-      matchOnDetail: true,
+    const extension = EXPORT_FILE_EXTENSIONS[format.format];
+    const baseName =
+      sessions.length === 1
+        ? sessions[0].title.replace(/[^\w\- ]+/g, "").trim() || "chat"
+        : "perplexity-chats";
+    const folder =
+      vscode.workspace.workspaceFolders?.[0]?.uri ??
+      vscode.Uri.file(os.homedir());
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(folder, `${baseName}.${extension}`),
+      filters: { [format.label]: [extension] },
     });
+    if (!target) {
+      return;
+    }
 
-    if (selected) {
-      this.selectSession(selected.session.id);
+    await vscode.workspace.fs.writeFile(
+      target,
+      Buffer.from(serializeSessions(sessions, format.format), "utf8")
+    );
+    const choice = await vscode.window.showInformationMessage(
+      `Exported ${sessions.length === 1 ? "chat" : `${sessions.length} chats`} to ${vscode.workspace.asRelativePath(target)}`,
+      "Open"
+    );
+    if (choice === "Open") {
+      await vscode.window.showTextDocument(target);
     }
   }
 
+  public async importChats() {
+    const [source] =
+      (await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { JSON: ["json"] },
+        openLabel: "Import Chats",
+      })) ?? [];
+    if (!source) {
+      return;
+    }
+
+    let imported: ChatSession[];
+    try {
+      const data = await vscode.workspace.fs.readFile(source);
+      imported = parseSessionsJson(Buffer.from(data).toString("utf8"));
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Could not import chats: ${error instanceof Error ? error.message : error}`
+      );
+      return;
+    }
+
+    // Keep existing sessions intact when an export is imported twice
+    const existingIds = new Set(this.sessions.map((s) => s.id));
+    for (const session of imported) {
+      if (existingIds.has(session.id)) {
+        session.id =
+          Date.now().toString() + Math.random().toString(36).substr(2, 9);
+      }
+      existingIds.add(session.id);
+    }
+
+    this.sessions = [...imported, ...this.sessions].sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+    this.saveChatHistory();
+    this.selectSession(imported[0]?.id ?? "");
+    vscode.window.showInformationMessage(
+      `Imported ${imported.length} chat session${imported.length === 1 ? "" : "s"}`
+    );
+  }
+
   public selectSession(sessionId: string) {
     if (this.sessions.find((s) => s.id === sessionId)) {
       this.currentSessionId = sessionId;
@@ -259,15 +1074,35 @@ export class PerplexityCustomChatProvider
     }
   }
 
-  private handleModeChange(mode: "ask" | "code" | "debug") {
-    this.currentMode = mode;
+  private getCurrentMode(): ChatMode {
+    return (
+      this.modes.find((mode) => mode.id === this.currentMode) ??
+      this.modes.find((mode) => mode.id === DEFAULT_CHAT_MODE)!
+    );
+  }
+
+  private async reloadModes() {
+    this.modes = await loadChatModes();
+    this.updateWebview();
+  }
+
+  private handleModeChange(modeId: string) {
+    const mode = this.modes.find((m) => m.id === modeId);
+    if (!mode) {
+      return;
+    }
+    this.currentMode = mode.id;
+    if (mode.model) {
+      this.currentModel = mode.model;
+    }
     this.view?.webview.postMessage({
       type: "modeChanged",
       mode: this.currentMode,
+      model: this.currentModel,
     });
     vscode.workspace
       .getConfiguration("perplexityAI")
-      .update("currentMode", mode, vscode.ConfigurationTarget.Global);
+      .update("currentMode", mode.id, vscode.ConfigurationTarget.Global);
   }
 
   private updateWebview() {
@@ -279,101 +1114,97 @@ export class PerplexityCustomChatProvider
     this.view.webview.postMessage({
       type: "updateChat",
       messages: session?.messages || [],
-      sessions: this.sessions.map((s) => ({ id: s.id, title: s.title })),
+      sessions: this.getSortedSessions().map((s) => ({
+        id: s.id,
+        title: s.title,
+        pinned: s.pinned,
+        updatedAt: s.updatedAt,
+        messageCount: s.messages.length,
+      })),
       currentSessionId: this.currentSessionId,
-      currentMode: this.currentMode,
+      modes: this.modes.map(({ id, name, icon }) => ({ id, name, icon })),
+      currentMode: this.getCurrentMode().id,
+      currentModel: this.currentModel,
     });
-  }
-
-  private async getApiKey(): Promise<string | undefined> {
-    return await this.context.secrets.get("perplexity-api-key");
-  }
-
-  private async queryPerplexityAPI(
-    apiKey: string,
-    prompt: string,
-    signal?: AbortSignal
-  ): Promise<string> {
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        "content-type": "application/json",
-      },
-      body: JSON.stringify({
-        model: this.currentModel,
-        messages: [{ role: "user", content: prompt }],
-        maxTokens: 2000,
-        temperature: 0.2,
-      }),
-      signal,
-    });
-
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status}`);
-    }
-    if (!response.body) {
-      return "No response received";
-    }
-
-    const data = (await response.json()) as {
-      choices: Array<{ message: { content: string } }>;
-    };
-    return data.choices[0]?.message?.content || "No response received";
+    this.postAttachedContext();
   }
 
   private saveChatHistory() {
-    this.context.globalState.update("perplexity-chat-history", this.sessions);
+    this.context.globalState.update(CHAT_HISTORY_KEY, this.sessions);
   }
 
   private loadChatHistory() {
     const saved = this.context.globalState.get<ChatSession[]>(
-      "perplexity-chat-history",
+      CHAT_HISTORY_KEY,
       []
     );
-    this.sessions = saved.map((session) => ({
-      ...session,
-      createdAt:
-        session.createdAt instanceof Date
-          ? session.createdAt
-          : new Date(session.createdAt),
-      messages: session.messages.map((message) => ({
-        ...message,
-        timestamp:
-          message.timestamp instanceof Date
-            ? message.timestamp
-            : new Date(message.timestamp),
-      })),
+    const version = this.context.globalState.get<number>(
+      CHAT_HISTORY_VERSION_KEY,
+      1
+    );
+    this.sessions = saved.map((session) => this.migrateSession(session));
+    if (version < CHAT_HISTORY_VERSION) {
+      this.saveChatHistory();
+      this.context.globalState.update(
+        CHAT_HISTORY_VERSION_KEY,
+        CHAT_HISTORY_VERSION
+      );
+    }
+    this.currentSessionId = this.getSortedSessions()[0]?.id;
+  }
+
+  /**
+   * Revives dates from storage and fills fields missing from older history
+   * versions or imported files.
+   */
+  private migrateSession(session: ChatSession): ChatSession {
+    const messages = session.messages.map((message) => ({
+      ...message,
+      timestamp:
+        message.timestamp instanceof Date
+          ? message.timestamp
+          : new Date(message.timestamp),
     }));
-    this.currentSessionId =
-      this.sessions.length > 0 ? this.sessions[0].id : undefined;
+    const createdAt =
+      session.createdAt instanceof Date
+        ? session.createdAt
+        : new Date(session.createdAt);
+    return {
+      ...session,
+      createdAt,
+      messages,
+      updatedAt: session.updatedAt
+        ? new Date(session.updatedAt)
+        : (messages[messages.length - 1]?.timestamp ?? createdAt),
+      pinned: Boolean(session.pinned),
+    };
   }
 
   private getHtmlForWebview(webview: vscode.Webview): string {
+    const viewRoot = vscode.Uri.joinPath(this.extensionUri, "src", "chat-view");
     const styleUri = webview.asWebviewUri(
-      vscode.Uri.joinPath(this.extensionUri, "src", "chatview", "styles.css")
+      vscode.Uri.joinPath(viewRoot, "styles.css")
     );
     const scriptUri = webview.asWebviewUri(
-      vscode.Uri.joinPath(this.extensionUri, "src", "chatview", "script.js")
+      vscode.Uri.joinPath(viewRoot, "script.js")
     );
+    const nonce = this.getNonce();
+
+    return fs
+      .readFileSync(vscode.Uri.joinPath(viewRoot, "index.html").fsPath, "utf8")
+      .replace(/{{CSP_SOURCE}}/g, webview.cspSource)
+      .replace(/{{CSS_URI}}/g, styleUri.toString())
+      .replace(/{{JS_URI}}/g, scriptUri.toString())
+      .replace(/{{NONCE}}/g, nonce);
+  }
 
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <link href="${styleUri}" rel="stylesheet">
-  <script src="${scriptUri}"></script>
-</head>
-<body>
-  <div id="chat-container">
-    <div id="chat-messages"></div>
-    <div id="chat-input-container">
-      <input type="text" id="message-input" placeholder="Ask anything...">
-      <button id="send-button">Send</button>
-    </div>
-  </div>
-</body>
-</html>`;
+  private getNonce(): string {
+    const chars =
+      "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+    let nonce = "";
+    for (let i = 0; i < 32; i++) {
+      nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
   }
 }
@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { getTemplateCommandId, PromptLibrary } from "./promptTemplates";
 
 export class CodeActionsProvider implements vscode.CodeActionProvider {
   public static readonly providedCodeActionKinds = [
@@ -6,13 +7,13 @@ export class CodeActionsProvider implements vscode.CodeActionProvider {
     vscode.CodeActionKind.Refactor,
   ];
 
-  constructor(private context: vscode.ExtensionContext) {}
+  constructor(private readonly promptLibrary: PromptLibrary) {}
 
   provideCodeActions(
     document: vscode.TextDocument,
     range: vscode.Range | vscode.Selection,
-    context: vscode.CodeActionContext,
-    token: vscode.CancellationToken
+    _context: vscode.CodeActionContext,
+    _token: vscode.CancellationToken
   ): vscode.CodeAction[] {
     const selectedText = document.getText(range);
 
@@ -20,53 +21,23 @@ export class CodeActionsProvider implements vscode.CodeActionProvider {
       return [];
     }
 
-    const actions: vscode.CodeAction[] = [];
-
-    // Add "Explain with Perplexity" action
-    const explainAction = new vscode.CodeAction(
-      "Explain with Perplexity AI",
-      vscode.CodeActionKind.QuickFix
-    );
-    explainAction.command = {
-      command: "perplexity-ai.explainCode",
-      title: "Explain Code",
-    };
-    actions.push(explainAction);
-
-    // Add "Optimize with Perplexity" action
-    const optimizeAction = new vscode.CodeAction(
-      "Optimize with Perplexity AI",
-      vscode.CodeActionKind.Refactor
-    );
-    optimizeAction.command = {
-      command: "perplexity-ai.optimizeCode",
-      title: "Optimize Code",
-    };
-    actions.push(optimizeAction);
-
-    // Add "Find Bugs with Perplexity" action
-    const findBugsAction = new vscode.CodeAction(
-      "Find Bugs with Perplexity AI",
-      vscode.CodeActionKind.QuickFix
-    );
-    findBugsAction.command = {
-      command: "perplexity-ai.findBugs",
-      title: "Find Bugs",
-    };
-    actions.push(findBugsAction);
-
-    // Add "Generate Tests" action
-    const testsAction = new vscode.CodeAction(
-      "Generate Tests with Perplexity AI",
-      vscode.CodeActionKind.Refactor
-    );
-    testsAction.command = {
-      command: "perplexity-ai.generateTests",
-      title: "Generate Tests",
-    };
-    actions.push(testsAction);
-
-    return actions;
+    // One action per template that opts in, built-in or from the workspace
+    return this.promptLibrary
+      .all()
+      .filter((template) => template.codeAction)
+      .map((template) => {
+        const action = new vscode.CodeAction(
+          template.actionTitle ?? `${template.title} with Perplexity AI`,
+          template.codeAction === "quickfix"
+            ? vscode.CodeActionKind.QuickFix
+            : vscode.CodeActionKind.Refactor
+        );
+        action.command = {
+          command: getTemplateCommandId(template),
+          title: template.title,
+        };
+        return action;
+      });
   }
 
   output = vscode.window.createOutputChannel("Perplexity AI");
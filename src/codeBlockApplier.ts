@@ -0,0 +1,206 @@
+import * as path from "path";
+import * as vscode from "vscode";
+
+export interface ProposedChange {
+  uri: vscode.Uri;
+  newText: string;
+  /** Range to replace. Omit to replace the whole document. */
+  range?: vscode.Range;
+  /** The file does not exist yet and is created with `newText`. */
+  isNew?: boolean;
+}
+
+/** What is needed to revert the most recently applied changes. */
+interface AppliedSnapshot {
+  originals: Array<{ uri: vscode.Uri; text: string }>;
+  created: vscode.Uri[];
+}
+
+/**
+ * Previews proposed edits in a side-by-side diff and applies accepted ones as
+ * a single undoable `WorkspaceEdit`.
+ */
+export class CodeBlockApplier implements vscode.TextDocumentContentProvider {
+  public static readonly scheme = "perplexity-proposed";
+
+  private readonly proposals = new Map<string, string>();
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+  private counter = 0;
+  private lastApplied?: AppliedSnapshot;
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.proposals.get(uri.toString()) ?? "";
+  }
+
+  public async insertAtCursor(text: string): Promise<boolean> {
+    const editor =
+      vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+    if (!editor) {
+      vscode.window.showWarningMessage("No active editor to insert into.");
+      return false;
+    }
+    return await editor.edit((editBuilder) => {
+      editor.selections.forEach((selection) =>
+        editBuilder.replace(selection, text)
+      );
+    });
+  }
+
+  /**
+   * Opens a diff for each change and asks for confirmation. Returns true when
+   * the changes were applied.
+   */
+  public async previewAndApply(
+    changes: ProposedChange[],
+    title = "Apply Perplexity AI changes"
+  ): Promise<boolean> {
+    if (changes.length === 0) {
+      return false;
+    }
+
+    const previews: vscode.Uri[] = [];
+    for (const change of changes) {
+      let original = change.uri;
+      let proposed = change.newText;
+      if (change.isNew) {
+        // Diff new files against an empty document
+        original = this.registerProposal(change.uri, "");
+      } else {
+        const document = await vscode.workspace.openTextDocument(change.uri);
+        const range = change.range ?? this.fullRange(document);
+        proposed =
+          document.getText().slice(0, document.offsetAt(range.start)) +
+          change.newText +
+          document.getText().slice(document.offsetAt(range.end));
+      }
+
+      const previewUri = this.registerProposal(change.uri, proposed);
+      previews.push(previewUri);
+      if (change.isNew) {
+        previews.push(original);
+      }
+
+      const name = path.basename(change.uri.fsPath);
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        original,
+        previewUri,
+        `${name} ↔ Proposed${change.isNew ? " (new file)" : ""}`,
+        { preview: changes.length === 1 }
+      );
+    }
+
+    const fileCount =
+      changes.length === 1
+        ? vscode.workspace.asRelativePath(changes[0].uri)
+        : `${changes.length} files`;
+    const choice = await vscode.window.showInformationMessage(
+      `${title}: ${fileCount}?`,
+      "Apply",
+      "Discard"
+    );
+
+    await this.closePreviews(previews);
+    previews.forEach((uri) => this.proposals.delete(uri.toString()));
+
+    if (choice !== "Apply") {
+      return false;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const snapshot: AppliedSnapshot = { originals: [], created: [] };
+    for (const change of changes) {
+      if (change.isNew) {
+        edit.createFile(change.uri, {
+          contents: Buffer.from(change.newText, "utf8"),
+        });
+        snapshot.created.push(change.uri);
+        continue;
+      }
+      const document = await vscode.workspace.openTextDocument(change.uri);
+      edit.replace(
+        change.uri,
+        change.range ?? this.fullRange(document),
+        change.newText
+      );
+      snapshot.originals.push({ uri: change.uri, text: document.getText() });
+    }
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (!applied) {
+      vscode.window.showErrorMessage("Could not apply the proposed changes.");
+      return false;
+    }
+
+    this.lastApplied = snapshot;
+    vscode.window
+      .showInformationMessage(`Applied changes to ${fileCount}.`, "Undo")
+      .then((undo) => {
+        if (undo && this.lastApplied === snapshot) {
+          this.undoLastApply();
+        }
+      });
+    return true;
+  }
+
+  /**
+   * Restores the files touched by the last `previewAndApply` and deletes the
+   * files it created, again as a single `WorkspaceEdit`.
+   */
+  public async undoLastApply(): Promise<boolean> {
+    const snapshot = this.lastApplied;
+    if (!snapshot) {
+      vscode.window.showInformationMessage("No applied changes to undo.");
+      return false;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const { uri, text } of snapshot.originals) {
+      const document = await vscode.workspace.openTextDocument(uri);
+      edit.replace(uri, this.fullRange(document), text);
+    }
+    snapshot.created.forEach((uri) =>
+      edit.deleteFile(uri, { ignoreIfNotExists: true })
+    );
+
+    const reverted = await vscode.workspace.applyEdit(edit);
+    if (reverted) {
+      this.lastApplied = undefined;
+      vscode.window.showInformationMessage("Reverted the applied changes.");
+    } else {
+      vscode.window.showErrorMessage("Could not revert the applied changes.");
+    }
+    return reverted;
+  }
+
+  private registerProposal(uri: vscode.Uri, text: string): vscode.Uri {
+    const proposalUri = vscode.Uri.from({
+      scheme: CodeBlockApplier.scheme,
+      path: uri.path,
+      query: `${++this.counter}`,
+    });
+    this.proposals.set(proposalUri.toString(), text);
+    return proposalUri;
+  }
+
+  private fullRange(document: vscode.TextDocument): vscode.Range {
+    return new vscode.Range(
+      document.positionAt(0),
+      document.positionAt(document.getText().length)
+    );
+  }
+
+  private async closePreviews(previews: vscode.Uri[]) {
+    const keys = new Set(previews.map((uri) => uri.toString()));
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter(
+        (tab) =>
+          tab.input instanceof vscode.TabInputTextDiff &&
+          keys.has(tab.input.modified.toString())
+      );
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+  }
+}
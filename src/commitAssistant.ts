@@ -1,237 +1,421 @@
-import * as cp from "child_process";
-import { promisify } from "util";
 import * as vscode from "vscode";
+import {
+  CHANGELOG_FILE,
+  CHANGELOG_SECTIONS,
+  groupCommits,
+  insertChangelogSection,
+  UNRELEASED,
+} from "./changelog";
+import { CodeBlockApplier } from "./codeBlockApplier";
+import {
+  CommitConventions,
+  describeConventions,
+  loadCommitConventions,
+  validateCommitMessage,
+} from "./commitConventions";
+import { DiffSummarizer, parseDiff } from "./diffSummarizer";
+import { API, RefType, Repository } from "./git";
+import {
+  describeRepository,
+  describeSubmoduleChanges,
+  getGitApi,
+  resolveRepository,
+} from "./gitRepositories";
+import { PerplexityClient, PerplexityMessage } from "./perplexityClient";
+import { TokenBudget } from "./tokenBudget";
+
+const COMMIT_MAX_TOKENS = 300;
+const ANALYSIS_MAX_TOKENS = 1000;
+const RELEASE_NOTES_MAX_TOKENS = 1500;
+const MAX_RELEASE_COMMITS = 500;
+
+const ANALYSIS_INSTRUCTIONS = `Provide a detailed analysis of these git changes. Include:
+1. Summary of changes
+2. Files affected
+3. Type of changes (features, fixes, refactoring, etc.)
+4. Potential impact
+5. Suggestions (if any)`;
+
+const RELEASE_NOTES_INSTRUCTIONS = `Rewrite these commits into release notes for the users of this project, in Keep a Changelog format:
+1. Reply with only "### Section" headings followed by "- " bullets; use only these sections, in this order: ${CHANGELOG_SECTIONS.join(", ")}
+2. The commits are pre-grouped by their likely section; move entries if the grouping is wrong
+3. Describe user-visible effects in plain language, not implementation details or commit hashes
+4. Merge related commits into one entry and leave out internal changes (tests, CI, refactoring, chores) unless users notice them
+5. Call out breaking changes explicitly`;
+
+interface GeneratedCommit {
+  message: string;
+  /** Rules the message still breaks after one correction attempt. */
+  problems: string[];
+}
 
-const exec = promisify(cp.exec);
+interface RepositoryChanges {
+  api: API;
+  repository: Repository;
+  diff: string;
+  /** Context that is not part of the diff, such as submodule commits. */
+  notes: string;
+}
 
 export class CommitAssistant {
-  constructor(private context: vscode.ExtensionContext) {}
+  private readonly summarizer: DiffSummarizer;
 
-  async generateCommitMessage() {
-    try {
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      const workspaceFolder =
-        workspaceFolders && workspaceFolders.length > 0
-          ? workspaceFolders[0]
-          : undefined;
-      if (!workspaceFolder) {
-        vscode.window.showErrorMessage("No workspace folder open");
-        return;
-      }
+  constructor(
+    private client: PerplexityClient,
+    private readonly codeBlockApplier: CodeBlockApplier
+  ) {
+    this.summarizer = new DiffSummarizer(client);
+  }
 
-      const gitExtension =
-        vscode.extensions.getExtension("vscode.git")?.exports;
-      if (!gitExtension) {
-        vscode.window.showErrorMessage("Git extension not found");
+  /**
+   * Message for what the next commit would include: the staged changes, or
+   * all tracked changes when nothing is staged. `source` is the Source
+   * Control view's repository when invoked from its title bar.
+   */
+  async generateCommitMessage(source?: unknown) {
+    try {
+      const changes = await this.getChanges(source, "auto");
+      if (!changes) {
+        vscode.window.showInformationMessage("No changes to commit");
         return;
       }
+      await this.fillCommitMessage(changes, "Generating commit message...");
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error generating commit: ${error}`);
+    }
+  }
 
-      const api = gitExtension.getAPI(1);
-      const repo = api.repositories;
-
-      if (!repo) {
-        vscode.window.showErrorMessage("No Git repository found");
+  async generateCommitForStaged(source?: unknown) {
+    try {
+      const changes = await this.getChanges(source, "staged");
+      if (!changes) {
+        vscode.window.showInformationMessage("No staged changes");
         return;
       }
+      await this.fillCommitMessage(changes, "Analyzing staged changes...");
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error: ${error}`);
+    }
+  }
 
-      // Get diff
-      const diff = await this.getGitDiff(workspaceFolder.uri.fsPath);
-
-      if (!diff || diff.trim().length === 0) {
-        vscode.window.showInformationMessage("No changes to commit");
+  async analyzeChanges(source?: unknown) {
+    try {
+      const changes = await this.getChanges(source, "auto");
+      if (!changes) {
+        vscode.window.showInformationMessage("No changes detected");
         return;
       }
 
       await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
-          title: "Generating commit message...",
+          title: "Analyzing changes...",
           cancellable: false,
         },
-        async () => {
-          const apiKey = await this.context.secrets.get("perplexity-api-key");
+        async (progress) => {
+          const apiKey = await this.client.getApiKey();
           if (!apiKey) {
             vscode.window.showErrorMessage("API key not configured");
             return;
           }
 
-          const commitMessage = await this.analyzeChangesAndGenerateCommit(
-            apiKey,
-            diff
-          );
+          const analysis = await this.analyzeGitChanges(changes, progress);
 
-          if (commitMessage) {
-            repo.inputBox.value = commitMessage;
-            vscode.window.showInformationMessage("Commit message generated!");
+          if (analysis) {
+            const doc = await vscode.workspace.openTextDocument({
+              content: `# Change Analysis: ${describeRepository(changes.api, changes.repository)}\n\n${analysis}`,
+              language: "markdown",
+            });
+            await vscode.window.showTextDocument(doc);
           }
         }
       );
     } catch (error) {
-      vscode.window.showErrorMessage(`Error generating commit: ${error}`);
+      vscode.window.showErrorMessage(`Error analyzing changes: ${error}`);
     }
   }
 
-  async generateCommitForStaged() {
+  /**
+   * Writes release notes for the commits between two refs and adds them to
+   * CHANGELOG.md as a new version section, previewed before it is written.
+   */
+  async generateChangelog(source?: unknown) {
     try {
-      const workspaceFolder = vscode.workspace.workspaceFolders;
-      if (!workspaceFolder) {
-        vscode.window.showErrorMessage("No workspace folder open");
+      const api = await getGitApi();
+      const repository = await resolveRepository(api, source);
+      if (!repository) {
         return;
       }
 
-      const diff = await this.getGitDiff(workspaceFolder.uri.fsPath, true);
+      // Newest tags first
+      const tags = repository.state.refs
+        .filter((ref) => ref.type === RefType.Tag && ref.name)
+        .map((ref) => ref.name!)
+        .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+      const beginning = "(first commit)";
+      const from = await vscode.window.showQuickPick([...tags, beginning], {
+        placeHolder: "Release notes from (exclusive)",
+      });
+      if (!from) {
+        return;
+      }
+      const to = await vscode.window.showQuickPick(
+        ["HEAD", ...tags.filter((tag) => tag !== from)],
+        { placeHolder: `Release notes from ${from} up to` }
+      );
+      if (!to) {
+        return;
+      }
 
-      if (!diff || diff.trim().length === 0) {
-        vscode.window.showInformationMessage("No staged changes");
+      const commits = await repository.log({
+        range: from === beginning ? undefined : `${from}..${to}`,
+        refNames: from === beginning ? [to] : undefined,
+        maxEntries: MAX_RELEASE_COMMITS,
+        maxParents: 1,
+      });
+      if (commits.length === 0) {
+        vscode.window.showInformationMessage(
+          `No commits between ${from} and ${to}`
+        );
         return;
       }
 
-      await vscode.window.withProgress(
+      const version = await vscode.window.showInputBox({
+        prompt: "Version for the new changelog section",
+        value: to === "HEAD" ? UNRELEASED : to.replace(/^v(?=\d)/, ""),
+      });
+      if (!version) {
+        return;
+      }
+
+      const notes = await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
-          title: "Analyzing staged changes...",
+          title: `Writing release notes for ${commits.length} commits...`,
           cancellable: false,
         },
         async () => {
-          const apiKey = await this.context.secrets.get("perplexity-api-key");
+          const apiKey = await this.client.getApiKey();
           if (!apiKey) {
             vscode.window.showErrorMessage("API key not configured");
-            return;
-          }
-
-          const commitMessage = await this.analyzeChangesAndGenerateCommit(
-            apiKey,
-            diff
-          );
-
-          if (commitMessage) {
-            const gitExtension =
-              vscode.extensions.getExtension("vscode.git")?.exports;
-            const api = gitExtension.getAPI(1);
-            const repo = api.repositories;
-
-            if (repo) {
-              repo.inputBox.value = commitMessage;
-              vscode.window.showInformationMessage(
-                "Commit message generated for staged changes!"
-              );
-            }
+            return undefined;
           }
+          return this.writeReleaseNotes(commits);
         }
       );
-    } catch (error) {
-      vscode.window.showErrorMessage(`Error: ${error}`);
-    }
-  }
-
-  async analyzeChanges() {
-    try {
-      const workspaceFolder = vscode.workspace.workspaceFolders;
-      if (!workspaceFolder) {
-        vscode.window.showErrorMessage("No workspace folder open");
+      if (!notes) {
         return;
       }
 
-      const diff = await this.getGitDiff(workspaceFolder.uri.fsPath);
-
-      if (!diff || diff.trim().length === 0) {
-        vscode.window.showInformationMessage("No changes detected");
-        return;
+      const uri = vscode.Uri.joinPath(repository.rootUri, CHANGELOG_FILE);
+      let existing: string | undefined;
+      try {
+        existing = (await vscode.workspace.openTextDocument(uri)).getText();
+      } catch {
+        existing = undefined;
       }
+      const date = new Date().toISOString().slice(0, 10);
+      await this.codeBlockApplier.previewAndApply(
+        [
+          {
+            uri,
+            newText: insertChangelogSection(
+              existing ?? "",
+              version,
+              date,
+              notes
+            ),
+            isNew: existing === undefined,
+          },
+        ],
+        `Add ${version} to ${CHANGELOG_FILE}`
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Error generating changelog: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
 
-      await vscode.window.withProgress(
+  private async writeReleaseNotes(
+    commits: Parameters<typeof groupCommits>[0]
+  ): Promise<string> {
+    const grouped = groupCommits(commits)
+      .map(
+        ({ section, commits: entries }) =>
+          `${section}:\n${entries
+            .map((commit) => {
+              const [subject, ...body] = commit.message.trim().split("\n");
+              const details = body.join(" ").replace(/\s+/g, " ").trim();
+              return `- ${subject}${details ? ` (${details.slice(0, 200)})` : ""}`;
+            })
+            .join("\n")}`
+      )
+      .join("\n\n");
+
+    const budget = TokenBudget.forModel(undefined, RELEASE_NOTES_MAX_TOKENS);
+    budget.reserve(RELEASE_NOTES_INSTRUCTIONS);
+    const fitted = budget.fit("Commit list", grouped, "head");
+    budget.reportTrimmed();
+
+    const completion = await this.client.complete(
+      [
         {
-          location: vscode.ProgressLocation.Notification,
-          title: "Analyzing changes...",
-          cancellable: false,
+          role: "user",
+          content: `${RELEASE_NOTES_INSTRUCTIONS}\n\nCommits:\n${fitted}`,
         },
-        async () => {
-          const apiKey = await this.context.secrets.get("perplexity-api-key");
-          if (!apiKey) {
-            vscode.window.showErrorMessage("API key not configured");
-            return;
-          }
+      ],
+      { maxTokens: RELEASE_NOTES_MAX_TOKENS }
+    );
+    const content = completion.content
+      .replace(/<think>[\s\S]*?<\/think>/g, "")
+      .replace(/```[\w]*\n?/g, "");
+    // Drop any preamble before the first section
+    const start = content.search(/^### /m);
+    return (start === -1 ? content : content.slice(start)).trim();
+  }
 
-          const analysis = await this.analyzeGitChanges(apiKey, diff);
+  private async fillCommitMessage(changes: RepositoryChanges, title: string) {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title,
+        cancellable: false,
+      },
+      async (progress) => {
+        const apiKey = await this.client.getApiKey();
+        if (!apiKey) {
+          vscode.window.showErrorMessage("API key not configured");
+          return;
+        }
 
-          if (analysis) {
-            const doc = await vscode.workspace.openTextDocument({
-              content: `# Change Analysis\n\n${analysis}`,
-              language: "markdown",
-            });
-            await vscode.window.showTextDocument(doc);
-          }
+        const { message, problems } =
+          await this.analyzeChangesAndGenerateCommit(changes, progress);
+
+        if (message && problems.length > 0) {
+          changes.repository.inputBox.value = message;
+          vscode.window.showWarningMessage(
+            `The generated commit message does not follow the repository's conventions: ${problems.join(" ")}`
+          );
+        } else if (message) {
+          changes.repository.inputBox.value = message;
+          vscode.window.showInformationMessage(
+            changes.api.repositories.length > 1
+              ? `Commit message generated for ${describeRepository(changes.api, changes.repository)}!`
+              : "Commit message generated!"
+          );
         }
-      );
-    } catch (error) {
-      vscode.window.showErrorMessage(`Error analyzing changes: ${error}`);
-    }
+      }
+    );
   }
 
-  private async getGitDiff(cwd: string, staged = false): Promise<string> {
-    try {
-      const command = staged ? "git diff --cached" : "git diff";
-      const { stdout } = await exec(command, {
-        cwd,
-        maxBuffer: 1024 * 1024 * 10,
-      });
-      return stdout;
-    } catch (error) {
-      throw new Error(`Failed to get git diff: ${error}`);
+  /**
+   * Diff of the chosen repository through the Git extension. `auto` uses the
+   * staged changes when there are any. Submodule pointer updates are
+   * followed by the commits they bring in.
+   */
+  private async getChanges(
+    source: unknown,
+    scope: "staged" | "auto"
+  ): Promise<RepositoryChanges | undefined> {
+    const api = await getGitApi();
+    const repository = await resolveRepository(api, source);
+    if (!repository) {
+      return undefined;
+    }
+
+    const staged =
+      scope === "staged" || repository.state.indexChanges.length > 0;
+    const diff = await repository.diff(staged);
+    if (!diff.trim()) {
+      return undefined;
     }
+
+    return {
+      api,
+      repository,
+      diff,
+      notes: await describeSubmoduleChanges(api, repository, diff),
+    };
   }
 
-  private async analyzeChangesAndGenerateCommit(
-    apiKey: string,
-    diff: string
+  /** The diff section of a prompt, summarised per file when too large. */
+  private async describeChanges(
+    changes: RepositoryChanges,
+    instructions: string,
+    responseTokens: number,
+    progress: vscode.Progress<{ message?: string }>
   ): Promise<string> {
-    const truncatedDiff =
-      diff.length > 6000
-        ? diff.substring(0, 6000) + "\n\n... (truncated)"
-        : diff;
-
-    const prompt = `Analyze this git diff and generate a conventional commit message. Follow these guidelines:
-1. Use Conventional Commits format: type(scope): description
-2. Types: feat, fix, docs, style, refactor, test, chore, perf, ci, build
-3. Keep the first line under 72 characters
-4. If needed, add a body explaining the changes
-5. Focus on WHAT changed and WHY, not HOW
-
-Git diff:
-\`\`\`
-${truncatedDiff}
-\`\`\`
+    const notes = changes.notes ? `\n\n${changes.notes}` : "";
+    const described = await this.summarizer.prepare(
+      changes.diff,
+      instructions + notes,
+      responseTokens,
+      progress
+    );
+    return described + notes;
+  }
 
-Generate ONLY the commit message, nothing else:`;
+  /**
+   * Writes a message following the repository's conventions and checks it
+   * against them, asking the model once to fix any problems.
+   */
+  private async analyzeChangesAndGenerateCommit(
+    changes: RepositoryChanges,
+    progress: vscode.Progress<{ message?: string }>
+  ): Promise<GeneratedCommit> {
+    const conventions = await loadCommitConventions(
+      changes.repository,
+      parseDiff(changes.diff).map((file) => file.path)
+    );
+    const instructions = this.commitInstructions(conventions);
+    const described = await this.describeChanges(
+      changes,
+      instructions,
+      COMMIT_MAX_TOKENS,
+      progress
+    );
+    progress.report({ message: "Writing commit message..." });
 
-    const config = vscode.workspace.getConfiguration("perplexityAI");
-    const model = config.get("model", "sonar");
+    const prompt = `${instructions}
 
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        "content-type": "application/json",
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 300,
-        temperature: 0.3,
-      }),
-    });
+${described}
+
+Generate ONLY the commit message, nothing else:`;
 
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status}`);
+    const messages: PerplexityMessage[] = [{ role: "user", content: prompt }];
+    let message = await this.requestCommitMessage(messages);
+    let problems = validateCommitMessage(message, conventions);
+    if (message && problems.length > 0) {
+      progress.report({ message: "Fixing commit message..." });
+      messages.push(
+        { role: "assistant", content: message },
+        {
+          role: "user",
+          content: `This message breaks the repository's commit rules:\n${problems.map((problem) => `- ${problem}`).join("\n")}\n\nReply with ONLY the corrected commit message.`,
+        }
+      );
+      message = await this.requestCommitMessage(messages);
+      problems = validateCommitMessage(message, conventions);
     }
+    return { message, problems };
+  }
 
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    let commitMessage =
-      (data.choices && data.choices[0]?.message?.content) || "";
+  private commitInstructions(conventions: CommitConventions): string {
+    return `Analyze this git diff and generate a commit message following the repository's conventions (from ${conventions.source}):
+${describeConventions(conventions)}`;
+  }
+
+  private async requestCommitMessage(
+    messages: PerplexityMessage[]
+  ): Promise<string> {
+    const completion = await this.client.complete(messages, {
+      maxTokens: COMMIT_MAX_TOKENS,
+    });
+    let commitMessage = completion.content;
 
     // Clean up the response
+    commitMessage = commitMessage.replace(/<think>[\s\S]*?<\/think>/g, "");
     commitMessage = commitMessage.replace(/```[\w]*\n?/g, "").trim();
     commitMessage = commitMessage.replace(/^["']|["']$/g, "");
 
@@ -239,54 +423,26 @@ Generate ONLY the commit message, nothing else:`;
   }
 
   private async analyzeGitChanges(
-    apiKey: string,
-    diff: string
+    changes: RepositoryChanges,
+    progress: vscode.Progress<{ message?: string }>
   ): Promise<string> {
-    const truncatedDiff =
-      diff.length > 8000
-        ? diff.substring(0, 8000) + "\n\n... (truncated)"
-        : diff;
-
-    const prompt = `Provide a detailed analysis of these git changes. Include:
-1. Summary of changes
-2. Files affected
-3. Type of changes (features, fixes, refactoring, etc.)
-4. Potential impact
-5. Suggestions (if any)
-
-Git diff:
-\`\`\`
-${truncatedDiff}
-\`\`\``;
-
-    const config = vscode.workspace.getConfiguration("perplexityAI");
-    const model = config.get("model", "sonar");
+    const described = await this.describeChanges(
+      changes,
+      ANALYSIS_INSTRUCTIONS,
+      ANALYSIS_MAX_TOKENS,
+      progress
+    );
+    progress.report({ message: "Writing analysis..." });
 
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        "content-type": "application/json",
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 1000,
-        temperature: 0.2,
-      }),
-    });
+    const prompt = `${ANALYSIS_INSTRUCTIONS}
 
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status}`);
-    }
+${described}`;
 
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    return (
-      (data.choices && data.choices[0]?.message?.content) ||
-      "No analysis available"
+    const completion = await this.client.complete(
+      [{ role: "user", content: prompt }],
+      { maxTokens: ANALYSIS_MAX_TOKENS }
     );
+    return completion.content || "No analysis available";
   }
 
   outputChannel = vscode.window.createOutputChannel("Commit Assistant");
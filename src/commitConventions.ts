@@ -0,0 +1,467 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { Repository } from "./git";
+
+/** Config files checked in order; `package.json` is read for its `commitlint` key. */
+const COMMITLINT_FILES = [
+  ".commitlintrc",
+  ".commitlintrc.json",
+  ".commitlintrc.yaml",
+  ".commitlintrc.yml",
+  ".commitlintrc.js",
+  ".commitlintrc.cjs",
+  ".commitlintrc.mjs",
+  ".commitlintrc.ts",
+  "commitlint.config.js",
+  "commitlint.config.cjs",
+  "commitlint.config.mjs",
+  "commitlint.config.ts",
+  "package.json",
+];
+
+const CONVENTIONAL_TYPES = [
+  "feat",
+  "fix",
+  "docs",
+  "style",
+  "refactor",
+  "perf",
+  "test",
+  "build",
+  "ci",
+  "chore",
+  "revert",
+];
+
+const GITMOJI_GUIDE =
+  "✨ new feature, 🐛 bug fix, 📝 docs, ♻️ refactor, ✅ tests, 🎨 code structure/format, ⚡️ performance, 🔥 remove code or files, 🔧 configuration, ⬆️ upgrade dependencies, 🚑️ critical hotfix, 💄 UI and styles, 🚀 deploy";
+
+const DEFAULT_HEADER_MAX_LENGTH = 72;
+const MAX_EXAMPLE_LINES = 6;
+/** Directories whose children are the natural scopes, e.g. `packages/api`. */
+const CONTAINER_DIRS = new Set([
+  "packages",
+  "apps",
+  "libs",
+  "services",
+  "modules",
+  "crates",
+  "plugins",
+  "src",
+  "lib",
+]);
+
+const CONVENTIONAL_HEADER = /^(\w+)(?:\(([^)]*)\))?(!)?: (.+)$/;
+const GITMOJI_HEADER = /^(?:\p{Extended_Pictographic}|:\w+:)/u;
+
+export type CommitStyle = "conventional" | "gitmoji" | "custom" | "freeform";
+
+export interface CommitConventions {
+  style: CommitStyle;
+  /** Where the style came from, for messages: a config file, settings or history. */
+  source: string;
+  /** Allowed types; undefined when any type is fine. */
+  types?: string[];
+  /** Allowed scopes from `scope-enum`. */
+  scopes?: string[];
+  scopeRequired: boolean;
+  /** Scopes matching the changed paths, most relevant first. */
+  suggestedScopes: string[];
+  headerMaxLength: number;
+  /** Subject must not end with a full stop. */
+  noFullStop: boolean;
+  template?: string;
+  /** Ticket id taken from the branch name. */
+  ticket?: string;
+  /** Recent commit messages used as few-shot examples. */
+  examples: string[];
+}
+
+interface CommitlintConfig {
+  file: string;
+  text: string;
+}
+
+async function readCommitlintConfig(
+  root: vscode.Uri
+): Promise<CommitlintConfig | undefined> {
+  for (const file of COMMITLINT_FILES) {
+    let text: string;
+    try {
+      text = Buffer.from(
+        await vscode.workspace.fs.readFile(vscode.Uri.joinPath(root, file))
+      ).toString("utf8");
+    } catch {
+      continue;
+    }
+    if (file === "package.json") {
+      try {
+        const commitlint = JSON.parse(text).commitlint;
+        if (commitlint) {
+          return { file, text: JSON.stringify(commitlint) };
+        }
+      } catch {
+        // Not valid JSON, nothing to read
+      }
+      continue;
+    }
+    return { file, text };
+  }
+  return undefined;
+}
+
+/**
+ * Reads one rule from a commitlint config without executing it. Handles the
+ * `[level, "always"|"never", value]` form used in JSON, JS and inline YAML.
+ */
+function readRule(
+  text: string,
+  name: string
+): { applicable: string; value: string } | undefined {
+  const index = text.search(new RegExp(`['"]?${name}['"]?\\s*:`));
+  if (index === -1) {
+    return undefined;
+  }
+  const rule = text
+    .slice(index, index + 800)
+    .match(
+      /:\s*\[?\s*(?:-\s*)?([012])\s*,?\s*(?:-\s*)?['"]?(always|never)['"]?\s*,?\s*(?:-\s*)?([\s\S]*)/
+    );
+  if (!rule || rule[1] === "0") {
+    return undefined;
+  }
+  return { applicable: rule[2], value: rule[3] };
+}
+
+function readEnumRule(text: string, name: string): string[] | undefined {
+  const rule = readRule(text, name);
+  const list = rule?.value.match(/^\[([^\]]*)\]/)?.[1];
+  if (rule?.applicable !== "always" || !list) {
+    return undefined;
+  }
+  const values = [...list.matchAll(/['"]?([^'",\s]+)['"]?/g)].map(
+    (match) => match[1]
+  );
+  return values.length > 0 ? values : undefined;
+}
+
+function readNumberRule(text: string, name: string): number | undefined {
+  const value = readRule(text, name)?.value.match(/^(\d+)/)?.[1];
+  return value ? Number(value) : undefined;
+}
+
+/** Scope for one changed path, e.g. `packages/api/src/x.ts` → `api`. */
+function scopeForPath(filePath: string): string {
+  const segments = filePath.split("/");
+  if (segments.length === 1) {
+    return path.posix.basename(filePath, path.posix.extname(filePath));
+  }
+  if (CONTAINER_DIRS.has(segments[0]) && segments.length > 2) {
+    return segments[1];
+  }
+  if (CONTAINER_DIRS.has(segments[0])) {
+    return path.posix.basename(segments[1], path.posix.extname(segments[1]));
+  }
+  return segments[0].replace(/^\./, "");
+}
+
+/**
+ * Scopes for the changed paths, most frequent first. With an allowed list
+ * only its entries are suggested, matched against any path segment.
+ */
+export function inferScopes(paths: string[], allowed?: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const filePath of paths) {
+    const candidates = allowed
+      ? allowed.filter((scope) =>
+          filePath.toLowerCase().split(/[/.]/).includes(scope.toLowerCase())
+        )
+      : [scopeForPath(filePath).toLowerCase()];
+    for (const scope of new Set(candidates)) {
+      counts.set(scope, (counts.get(scope) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([scope]) => scope)
+    .slice(0, 3);
+}
+
+/** Jira-style ids such as `ABC-123`. */
+const DEFAULT_TICKET_PATTERN = "[A-Z][A-Z0-9]+-\\d+";
+
+export function ticketFromBranch(
+  branch: string | undefined,
+  pattern: string
+): string | undefined {
+  if (!branch || !pattern) {
+    return undefined;
+  }
+  try {
+    const match = branch.match(new RegExp(pattern));
+    return match?.[1] ?? match?.[0];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ticket id in the branch name. With a configured pattern any match counts;
+ * the default pattern also matches names like `fix/UTF-8-decoding`, so its
+ * match only counts when recent commits reference tickets with that key.
+ */
+function detectTicket(
+  branch: string | undefined,
+  configuredPattern: string,
+  examples: string[]
+): string | undefined {
+  if (configuredPattern) {
+    return ticketFromBranch(branch, configuredPattern);
+  }
+  const candidate = ticketFromBranch(branch, DEFAULT_TICKET_PATTERN);
+  if (!candidate) {
+    return undefined;
+  }
+  const key = new RegExp(
+    `\\b${escapeRegExp(candidate.replace(/-\d+$/, ""))}-\\d+\\b`
+  );
+  return examples.some((message) => key.test(message)) ? candidate : undefined;
+}
+
+/** Guesses the style from recent subjects when nothing is configured. */
+function detectStyle(examples: string[]): CommitStyle {
+  const subjects = examples.map((message) => message.split("\n", 1)[0]);
+  if (subjects.length === 0) {
+    return "conventional";
+  }
+  const share = (pattern: RegExp) =>
+    subjects.filter((subject) => pattern.test(subject)).length /
+    subjects.length;
+  if (share(GITMOJI_HEADER) >= 0.5) {
+    return "gitmoji";
+  }
+  return share(CONVENTIONAL_HEADER) >= 0.5 ? "conventional" : "freeform";
+}
+
+/**
+ * Works out how commits in `repository` should be written, from settings,
+ * the commitlint config, the branch name and recent history.
+ */
+export async function loadCommitConventions(
+  repository: Repository,
+  changedPaths: string[]
+): Promise<CommitConventions> {
+  const config = vscode.workspace.getConfiguration("perplexityAI");
+  const configured = config.get<string>("commitConvention", "auto");
+  const template = config.get<string>("commitTemplate", "").trim();
+  const exampleCount = config.get<number>("commitExamples", 10);
+
+  let examples: string[] = [];
+  if (exampleCount > 0) {
+    try {
+      const commits = await repository.log({
+        maxEntries: exampleCount,
+        maxParents: 1,
+      });
+      examples = commits.map((commit) =>
+        commit.message.trim().split("\n").slice(0, MAX_EXAMPLE_LINES).join("\n")
+      );
+    } catch {
+      // A repository without commits has nothing to learn from
+    }
+  }
+
+  const commitlint = await readCommitlintConfig(repository.rootUri);
+  const rules = commitlint?.text ?? "";
+  const types = readEnumRule(rules, "type-enum");
+  const scopes = readEnumRule(rules, "scope-enum");
+
+  let style: CommitStyle;
+  let source: string;
+  if (configured !== "auto") {
+    style = configured as CommitStyle;
+    source = "perplexityAI.commitConvention";
+  } else if (template) {
+    style = "custom";
+    source = "perplexityAI.commitTemplate";
+  } else if (commitlint) {
+    style = /gitmoji/.test(rules) ? "gitmoji" : "conventional";
+    source = commitlint.file;
+  } else {
+    style = detectStyle(examples);
+    source = "recent commits";
+  }
+
+  return {
+    style,
+    source,
+    types:
+      style === "conventional"
+        ? (types ?? (commitlint ? CONVENTIONAL_TYPES : undefined))
+        : undefined,
+    scopes,
+    scopeRequired: readRule(rules, "scope-empty")?.applicable === "never",
+    suggestedScopes: inferScopes(changedPaths, scopes),
+    headerMaxLength:
+      readNumberRule(rules, "header-max-length") ?? DEFAULT_HEADER_MAX_LENGTH,
+    noFullStop: readRule(rules, "subject-full-stop")?.applicable !== "always",
+    template: style === "custom" ? template || undefined : undefined,
+    ticket: detectTicket(
+      repository.state.HEAD?.name,
+      config.get<string>("commitTicketPattern", "").trim(),
+      examples
+    ),
+    examples,
+  };
+}
+
+/** Prompt instructions describing `conventions`. */
+export function describeConventions(conventions: CommitConventions): string {
+  const rules: string[] = [];
+  switch (conventions.style) {
+    case "conventional":
+      rules.push(
+        "Use the Conventional Commits format: type(scope): description",
+        `Types: ${(conventions.types ?? CONVENTIONAL_TYPES).join(", ")}`
+      );
+      break;
+    case "gitmoji":
+      rules.push(
+        `Start the first line with a gitmoji that matches the change: ${GITMOJI_GUIDE}`
+      );
+      break;
+    case "custom":
+      rules.push(
+        `Follow this template exactly, replacing the {placeholders} ({type}, {scope}, {subject}, {body}, {ticket}) and dropping empty ones:\n${conventions.template ?? "{subject}\n\n{body}"}`
+      );
+      break;
+    case "freeform":
+      rules.push(
+        "Match the format of the recent commits shown below (capitalisation, tense, prefixes)"
+      );
+      break;
+  }
+
+  if (conventions.style !== "freeform" && conventions.style !== "custom") {
+    if (conventions.scopes) {
+      rules.push(
+        `Scope must be one of: ${conventions.scopes.join(", ")}${conventions.suggestedScopes.length ? ` (likely: ${conventions.suggestedScopes.join(", ")})` : ""}`
+      );
+    } else if (conventions.suggestedScopes.length > 0) {
+      rules.push(
+        `Suggested scope from the changed paths: ${conventions.suggestedScopes.join(", ")}; omit the scope if the change is not limited to one area`
+      );
+    }
+    if (conventions.scopeRequired) {
+      rules.push("A scope is required");
+    }
+  }
+  rules.push(
+    `Keep the first line at most ${conventions.headerMaxLength} characters`
+  );
+  if (conventions.noFullStop) {
+    rules.push("Do not end the first line with a period");
+  }
+  if (conventions.ticket) {
+    rules.push(
+      `Reference the ticket ${conventions.ticket} from the branch name, the same way recent commits reference tickets (or as a "Refs: ${conventions.ticket}" footer)`
+    );
+  }
+  rules.push(
+    "If needed, add a body after a blank line explaining the change",
+    "Focus on WHAT changed and WHY, not HOW"
+  );
+
+  const examples =
+    conventions.examples.length > 0
+      ? `\n\nRecent commits in this repository; match their tone, language and level of detail:\n${conventions.examples.map((message) => `---\n${message}`).join("\n")}\n---`
+      : "";
+  return `${rules.map((rule, i) => `${i + 1}. ${rule}`).join("\n")}${examples}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Matches the first line of a custom template, placeholders included. */
+function templateHeaderPattern(template: string): RegExp {
+  const header = template.split("\n", 1)[0];
+  const source = header
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      switch (part) {
+        case "{ticket}":
+          return "\\S*";
+        case "{type}":
+        case "{scope}":
+          return "[^\\s()]*";
+        case "{subject}":
+        case "{summary}":
+          return ".+";
+        default:
+          return /^\{\w+\}$/.test(part) ? ".*" : escapeRegExp(part);
+      }
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "u");
+}
+
+/** Problems with `message`; an empty list means it follows the conventions. */
+export function validateCommitMessage(
+  message: string,
+  conventions: CommitConventions
+): string[] {
+  const problems: string[] = [];
+  const [header = "", separator] = message.split("\n");
+  if (!header.trim()) {
+    return ["The first line is empty."];
+  }
+  if (header.length > conventions.headerMaxLength) {
+    problems.push(
+      `The first line is ${header.length} characters; the limit is ${conventions.headerMaxLength}.`
+    );
+  }
+  if (separator?.trim()) {
+    problems.push(
+      "The body must be separated from the first line by a blank line."
+    );
+  }
+  if (conventions.noFullStop && header.trimEnd().endsWith(".")) {
+    problems.push("The first line must not end with a period.");
+  }
+
+  if (conventions.style === "conventional") {
+    const match = header.match(CONVENTIONAL_HEADER);
+    if (!match) {
+      problems.push(
+        'The first line must look like "type(scope): description".'
+      );
+    } else {
+      const [, type, scope] = match;
+      if (conventions.types && !conventions.types.includes(type)) {
+        problems.push(
+          `"${type}" is not an allowed type (${conventions.types.join(", ")}).`
+        );
+      }
+      if (scope && conventions.scopes && !conventions.scopes.includes(scope)) {
+        problems.push(
+          `"${scope}" is not an allowed scope (${conventions.scopes.join(", ")}).`
+        );
+      }
+      if (!scope && conventions.scopeRequired) {
+        problems.push("A scope is required.");
+      }
+    }
+  } else if (conventions.style === "gitmoji" && !GITMOJI_HEADER.test(header)) {
+    problems.push("The first line must start with a gitmoji.");
+  } else if (
+    conventions.style === "custom" &&
+    conventions.template &&
+    !templateHeaderPattern(conventions.template).test(header)
+  ) {
+    problems.push(
+      `The first line does not follow the template "${conventions.template.split("\n", 1)[0]}".`
+    );
+  }
+  return problems;
+}
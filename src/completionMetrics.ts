@@ -0,0 +1,363 @@
+import * as vscode from "vscode";
+import { PerplexityUsage } from "./perplexityClient";
+
+const METRICS_FILE = "completion-metrics.json";
+const METRICS_VERSION = 1;
+/** Latency samples kept per language/model pair. */
+const MAX_LATENCY_SAMPLES = 500;
+const SAVE_DELAY_MS = 5000;
+
+/* eslint-disable @typescript-eslint/naming-convention */
+/** USD per million tokens, used to estimate spend in the report. */
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  sonar: { input: 1, output: 1 },
+  "sonar-pro": { input: 3, output: 15 },
+  "sonar-reasoning": { input: 1, output: 5 },
+  "sonar-reasoning-pro": { input: 2, output: 8 },
+  "sonar-deep-research": { input: 2, output: 8 },
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+interface MetricsBucket {
+  language: string;
+  model: string;
+  requests: number;
+  shown: number;
+  accepted: number;
+  rejected: number;
+  latenciesMs: number[];
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface MetricsFile {
+  version: number;
+  since: string;
+  buckets: Record<string, MetricsBucket>;
+}
+
+/** A suggestion list that is on screen and not yet accepted or dismissed. */
+interface PendingSuggestion {
+  id: string;
+  uri: string;
+  position: vscode.Position;
+  texts: string[];
+  /** Bucket coordinates; the bucket object is replaced when the file loads. */
+  language: string;
+  model: string;
+}
+
+function percentile(sorted: number[], p: number): number | undefined {
+  if (sorted.length === 0) {
+    return undefined;
+  }
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)
+  );
+  return sorted[index];
+}
+
+function estimateCost(bucket: MetricsBucket): number | undefined {
+  const pricing = MODEL_PRICING[bucket.model];
+  if (!pricing) {
+    return undefined;
+  }
+  return (
+    (bucket.promptTokens * pricing.input +
+      bucket.completionTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Records how inline suggestions are received. Everything stays in a JSON
+ * file in the extension's global storage and is never sent anywhere.
+ */
+export class CompletionMetrics implements vscode.Disposable {
+  public static readonly acceptCommand = "perplexity-ai.completionAccepted";
+
+  private data: MetricsFile = {
+    version: METRICS_VERSION,
+    since: new Date().toISOString(),
+    buckets: {},
+  };
+  private readonly pending = new Map<string, PendingSuggestion>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private saveTimer?: NodeJS.Timeout;
+  private counter = 0;
+  private readonly loaded: Promise<void>;
+
+  constructor(private readonly storageUri: vscode.Uri) {
+    this.loaded = this.load();
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.handleDocumentChange(event)
+      ),
+      vscode.window.onDidChangeTextEditorSelection((event) =>
+        this.handleSelectionChange(event)
+      )
+    );
+  }
+
+  private get fileUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, METRICS_FILE);
+  }
+
+  private bucket(language: string, model: string): MetricsBucket {
+    const key = `${language}\u0000${model}`;
+    this.data.buckets[key] ??= {
+      language,
+      model,
+      requests: 0,
+      shown: 0,
+      accepted: 0,
+      rejected: 0,
+      latenciesMs: [],
+      promptTokens: 0,
+      completionTokens: 0,
+    };
+    return this.data.buckets[key];
+  }
+
+  /** Records an API round trip; cached and shared results are not counted. */
+  public recordRequest(
+    language: string,
+    model: string,
+    latencyMs: number,
+    usage?: PerplexityUsage
+  ) {
+    const bucket = this.bucket(language, model);
+    bucket.requests++;
+    bucket.latenciesMs.push(Math.round(latencyMs));
+    if (bucket.latenciesMs.length > MAX_LATENCY_SAMPLES) {
+      bucket.latenciesMs.splice(
+        0,
+        bucket.latenciesMs.length - MAX_LATENCY_SAMPLES
+      );
+    }
+    bucket.promptTokens += usage?.promptTokens ?? 0;
+    bucket.completionTokens += usage?.completionTokens ?? 0;
+    this.scheduleSave();
+  }
+
+  /**
+   * Starts tracking suggestions returned for `position`. Returns the id to
+   * pass to {@link CompletionMetrics.acceptCommand}.
+   */
+  public trackShown(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    texts: string[],
+    model: string
+  ): string {
+    const uri = document.uri.toString();
+    // A new suggestion at a different spot replaces the previous one unused
+    const previous = this.pending.get(uri);
+    if (previous) {
+      this.resolve(
+        previous,
+        previous.position.isEqual(position) ? undefined : "rejected"
+      );
+    }
+
+    const id = `${Date.now().toString(36)}-${++this.counter}`;
+    const language = document.languageId;
+    this.bucket(language, model).shown++;
+    this.pending.set(uri, { id, uri, position, texts, language, model });
+    this.scheduleSave();
+    return id;
+  }
+
+  public markAccepted(id: string) {
+    const suggestion = [...this.pending.values()].find((s) => s.id === id);
+    if (suggestion) {
+      this.resolve(suggestion, "accepted");
+    }
+  }
+
+  /** Removes the entry, counting the outcome when one is given. */
+  private resolve(
+    suggestion: PendingSuggestion,
+    outcome?: "accepted" | "rejected"
+  ) {
+    this.pending.delete(suggestion.uri);
+    if (outcome) {
+      this.bucket(suggestion.language, suggestion.model)[outcome]++;
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Typing that matches the suggestion keeps it alive, inserting more than
+   * one matching character at once is a (partial) accept, anything else
+   * dismisses it.
+   */
+  private handleDocumentChange(event: vscode.TextDocumentChangeEvent) {
+    const suggestion = this.pending.get(event.document.uri.toString());
+    if (!suggestion || event.contentChanges.length === 0) {
+      return;
+    }
+    const [change] = event.contentChanges;
+    const matching = suggestion.texts.filter(
+      (text) =>
+        change.text.length > 0 &&
+        change.range.isEmpty &&
+        change.range.start.isEqual(suggestion.position) &&
+        text.startsWith(change.text)
+    );
+    if (event.contentChanges.length > 1 || matching.length === 0) {
+      this.resolve(suggestion, "rejected");
+    } else if (change.text.length > 1) {
+      this.resolve(suggestion, "accepted");
+    } else {
+      suggestion.texts = matching.map((text) => text.slice(1));
+      suggestion.position = suggestion.position.translate(0, 1);
+    }
+  }
+
+  private handleSelectionChange(event: vscode.TextEditorSelectionChangeEvent) {
+    const suggestion = this.pending.get(
+      event.textEditor.document.uri.toString()
+    );
+    if (
+      suggestion &&
+      event.kind !== vscode.TextEditorSelectionChangeKind.Command &&
+      !event.selections[0].active.isEqual(suggestion.position)
+    ) {
+      this.resolve(suggestion, "rejected");
+    }
+  }
+
+  public async showReport() {
+    await this.loaded;
+    const buckets = Object.values(this.data.buckets).sort(
+      (a, b) => b.shown - a.shown
+    );
+    if (buckets.length === 0) {
+      vscode.window.showInformationMessage(
+        "No inline completion metrics recorded yet."
+      );
+      return;
+    }
+
+    const format = (ms?: number) => (ms === undefined ? "–" : `${ms} ms`);
+    const rows = buckets.map((bucket) => {
+      const sorted = [...bucket.latenciesMs].sort((a, b) => a - b);
+      const decided = bucket.accepted + bucket.rejected;
+      const cost = estimateCost(bucket);
+      return `| ${bucket.language} | ${bucket.model} | ${bucket.requests} | ${bucket.shown} | ${bucket.accepted} | ${bucket.rejected} | ${decided ? `${((bucket.accepted / decided) * 100).toFixed(1)}%` : "–"} | ${format(percentile(sorted, 50))} | ${format(percentile(sorted, 90))} | ${format(percentile(sorted, 99))} | ${(bucket.promptTokens + bucket.completionTokens).toLocaleString()} | ${cost === undefined ? "–" : `$${cost.toFixed(4)}`} |`;
+    });
+
+    const total = buckets.reduce(
+      (sum, bucket) => ({
+        accepted: sum.accepted + bucket.accepted,
+        decided: sum.decided + bucket.accepted + bucket.rejected,
+        cost: sum.cost + (estimateCost(bucket) ?? 0),
+      }),
+      { accepted: 0, decided: 0, cost: 0 }
+    );
+
+    const content = [
+      "# Inline Completion Metrics",
+      "",
+      `Recorded since ${new Date(this.data.since).toLocaleString()}. Acceptance rate: ${total.decided ? `${((total.accepted / total.decided) * 100).toFixed(1)}%` : "–"}. Estimated cost: $${total.cost.toFixed(4)}.`,
+      "",
+      "| Language | Model | Requests | Shown | Accepted | Rejected | Acceptance | p50 | p90 | p99 | Tokens | Est. cost |",
+      "| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |",
+      ...rows,
+      "",
+      "Latency covers API requests only; cached suggestions are not counted. Costs use list token prices and exclude per-request fees.",
+      "",
+      `_Stored locally in \`${this.fileUri.fsPath}\` and never sent anywhere._`,
+      "",
+    ].join("\n");
+
+    const document = await vscode.workspace.openTextDocument({
+      content,
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(document);
+  }
+
+  public async reset() {
+    this.data = {
+      version: METRICS_VERSION,
+      since: new Date().toISOString(),
+      buckets: {},
+    };
+    this.pending.clear();
+    await this.save();
+    vscode.window.showInformationMessage("Completion metrics reset.");
+  }
+
+  private async load() {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(this.fileUri);
+      const saved = JSON.parse(Buffer.from(bytes).toString("utf8"));
+      if (saved?.version === METRICS_VERSION && saved.buckets) {
+        // Keep anything recorded while the file was being read
+        const recorded = this.data.buckets;
+        this.data = saved as MetricsFile;
+        for (const [key, bucket] of Object.entries(recorded)) {
+          this.data.buckets[key] = this.merge(this.data.buckets[key], bucket);
+        }
+      }
+    } catch {
+      // No metrics recorded yet
+    }
+  }
+
+  private merge(
+    saved: MetricsBucket | undefined,
+    recent: MetricsBucket
+  ): MetricsBucket {
+    if (!saved) {
+      return recent;
+    }
+    return {
+      ...saved,
+      requests: saved.requests + recent.requests,
+      shown: saved.shown + recent.shown,
+      accepted: saved.accepted + recent.accepted,
+      rejected: saved.rejected + recent.rejected,
+      latenciesMs: [...saved.latenciesMs, ...recent.latenciesMs].slice(
+        -MAX_LATENCY_SAMPLES
+      ),
+      promptTokens: saved.promptTokens + recent.promptTokens,
+      completionTokens: saved.completionTokens + recent.completionTokens,
+    };
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save() {
+    await this.loaded;
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      await vscode.workspace.fs.writeFile(
+        this.fileUri,
+        Buffer.from(JSON.stringify(this.data), "utf8")
+      );
+    } catch (error) {
+      console.error("Could not save completion metrics:", error);
+    }
+  }
+
+  public dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.save();
+    }
+  }
+}
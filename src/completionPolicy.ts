@@ -0,0 +1,202 @@
+import * as vscode from "vscode";
+import { isSecretFile } from "./secretFiles";
+
+/** One entry of `perplexityAI.completionPolicies`. */
+export interface CompletionPolicyRule {
+  /** Language ids the rule applies to; `*` or omitted matches all. */
+  languages?: string[];
+  /** Glob matched against the file path, e.g. `**\/test/**`. */
+  pattern?: string;
+  enabled?: boolean;
+  model?: string;
+  maxLines?: number;
+  multiline?: boolean;
+  /** Only complete after an instruction comment such as `// sort by date`. */
+  commentOnly?: boolean;
+}
+
+export interface CompletionPolicy {
+  enabled: boolean;
+  model: string;
+  maxLines?: number;
+  multiline: boolean;
+  commentOnly: boolean;
+  /** Why completions are off, for the status bar tooltip. */
+  disabledBy?: string;
+}
+
+/** Defaults applied before user rules, which can override them. */
+const DEFAULT_RULES: CompletionPolicyRule[] = [
+  { languages: ["markdown", "plaintext"], enabled: false },
+  {
+    pattern:
+      "**/{package-lock.json,npm-shrinkwrap.json,yarn.lock,pnpm-lock.yaml,bun.lockb,Cargo.lock,Gemfile.lock,poetry.lock,Pipfile.lock,composer.lock,go.sum,*.lock}",
+    enabled: false,
+  },
+];
+
+function describeRule(rule: CompletionPolicyRule): string {
+  return rule.pattern ?? rule.languages?.join(", ") ?? "all files";
+}
+
+function matches(
+  rule: CompletionPolicyRule,
+  document: vscode.TextDocument
+): boolean {
+  const languages = rule.languages?.filter((language) => language !== "*");
+  if (languages?.length && !languages.includes(document.languageId)) {
+    return false;
+  }
+  return (
+    !rule.pattern ||
+    vscode.languages.match({ pattern: rule.pattern }, document) > 0
+  );
+}
+
+/**
+ * Effective completion settings for `document`: the global settings, then
+ * the default rules, then `perplexityAI.completionPolicies` in order, with
+ * later matching rules overriding earlier ones.
+ */
+export function resolveCompletionPolicy(
+  document: vscode.TextDocument
+): CompletionPolicy {
+  const config = vscode.workspace.getConfiguration("perplexityAI");
+  const policy: CompletionPolicy = {
+    enabled: config.get("completionEnabled", true),
+    model: config.get("completionModel", "sonar"),
+    multiline: true,
+    commentOnly: false,
+  };
+  if (!policy.enabled) {
+    policy.disabledBy = "perplexityAI.completionEnabled";
+  }
+
+  const rules = [
+    ...DEFAULT_RULES,
+    ...config.get<CompletionPolicyRule[]>("completionPolicies", []),
+  ];
+  for (const rule of rules.filter((r) => matches(r, document))) {
+    if (rule.enabled !== undefined) {
+      policy.enabled = rule.enabled;
+      policy.disabledBy = rule.enabled ? undefined : describeRule(rule);
+    }
+    policy.model = rule.model ?? policy.model;
+    policy.maxLines = rule.maxLines ?? policy.maxLines;
+    policy.multiline = rule.multiline ?? policy.multiline;
+    policy.commentOnly = rule.commentOnly ?? policy.commentOnly;
+  }
+
+  if (isSecretFile(document.uri)) {
+    policy.enabled = false;
+    policy.disabledBy = "secrets file";
+  }
+  return policy;
+}
+
+/** Cuts a suggestion down to what the policy allows. */
+export function limitCompletionLines(
+  completion: string,
+  policy: CompletionPolicy
+): string {
+  const lines = completion.split("\n");
+  const maxLines = policy.multiline ? policy.maxLines : 1;
+  return maxLines && maxLines > 0
+    ? lines.slice(0, maxLines).join("\n")
+    : completion;
+}
+
+/**
+ * Turns completions on or off for a language by updating (or adding) a
+ * language-only rule, so glob rules keep their effect.
+ */
+export async function setLanguageCompletionEnabled(
+  languageId: string,
+  enabled: boolean
+) {
+  const config = vscode.workspace.getConfiguration("perplexityAI");
+  const rules = [
+    ...config.get<CompletionPolicyRule[]>("completionPolicies", []),
+  ];
+  const index = rules.findIndex(
+    (rule) =>
+      !rule.pattern &&
+      rule.languages?.length === 1 &&
+      rule.languages[0] === languageId
+  );
+  if (index === -1) {
+    rules.push({ languages: [languageId], enabled });
+  } else {
+    rules[index] = { ...rules[index], enabled };
+  }
+  await config.update(
+    "completionPolicies",
+    rules,
+    vscode.ConfigurationTarget.Global
+  );
+}
+
+/** Status bar item showing and toggling completions for the active language. */
+export class CompletionStatusBar implements vscode.Disposable {
+  public static readonly toggleCommand =
+    "perplexity-ai.toggleCompletionForLanguage";
+
+  // Just right of the "Perplexity" item, which has priority 100
+  private readonly item = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+    99
+  );
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.item.command = CompletionStatusBar.toggleCommand;
+    this.disposables.push(
+      this.item,
+      vscode.window.onDidChangeActiveTextEditor(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("perplexityAI")) {
+          this.update();
+        }
+      })
+    );
+    this.update();
+  }
+
+  public async toggle() {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document) {
+      return;
+    }
+    const enabled = !resolveCompletionPolicy(document).enabled;
+    await setLanguageCompletionEnabled(document.languageId, enabled);
+
+    const policy = resolveCompletionPolicy(document);
+    if (enabled && !policy.enabled) {
+      vscode.window.showWarningMessage(
+        `Completions are enabled for ${document.languageId}, but this file is still excluded by: ${policy.disabledBy}`
+      );
+    } else {
+      vscode.window.showInformationMessage(
+        `Perplexity inline completions ${enabled ? "enabled" : "disabled"} for ${document.languageId}`
+      );
+    }
+  }
+
+  private update() {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document) {
+      this.item.hide();
+      return;
+    }
+    const policy = resolveCompletionPolicy(document);
+    this.item.text = `${policy.enabled ? "$(sparkle)" : "$(circle-slash)"} Perplexity`;
+    this.item.tooltip = policy.enabled
+      ? `Perplexity completions are on for ${document.languageId} (${policy.model}${policy.commentOnly ? ", comment prompts only" : ""}). Click to turn off.`
+      : `Perplexity completions are off (${policy.disabledBy}). Click to turn on for ${document.languageId}.`;
+    this.item.show();
+  }
+
+  public dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
@@ -1,154 +1,485 @@
+import { createHash } from "crypto";
 import * as vscode from "vscode";
+import { CompletionMetrics } from "./completionMetrics";
+import {
+  limitCompletionLines,
+  resolveCompletionPolicy,
+} from "./completionPolicy";
+import { PerplexityClient, PerplexityCompletion } from "./perplexityClient";
+import { estimateTokens, TokenBudget } from "./tokenBudget";
+
+const COMPLETION_MAX_TOKENS = 200;
+/** Completions favour latency over context, so the prompt stays small. */
+const COMPLETION_CONTEXT_TOKENS = 1500;
+const MAX_COMPLETION_CANDIDATES = 5;
+const COMPLETION_CACHE_SIZE = 100;
+const CURSOR_MARKER = "<|cursor|>";
+const MAX_IMPORT_LINES = 30;
+
+const IMPORT_PATTERN =
+  /^\s*(?:import\b|from\s+\S+\s+import\b|(?:const|let|var)\s+.+=\s*require\(|using\s+[\w.]+;|#include\b|use\s+[\w:]+|require(?:_once)?\b)/;
+
+interface InFlightRequest {
+  promise: Promise<string>;
+  controller: AbortController;
+  /** Requests still waiting for the result. */
+  waiters: number;
+  settled: boolean;
+}
+
+/** Map-backed LRU: reads move an entry to the end, inserts evict the front. */
+class LruCache<K, V> {
+  private readonly entries = new Map<K, V>();
+
+  constructor(private readonly capacity: number) {}
+
+  public get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  public set(key: K, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * Code suggestions in a model reply: the contents of each fenced block, an
+ * unterminated final block cut off by the token limit, or the whole reply
+ * when it has no fences at all.
+ */
+export function extractCodeCandidates(response: string): string[] {
+  const text = response
+    .replace(/<think>[\s\S]*?<\/think>/g, "")
+    .replace(CURSOR_MARKER, "");
+  const candidates: string[] = [];
+  const fence = /```[^\n`]*\n([\s\S]*?)(?:```|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(text))) {
+    candidates.push(match[1]);
+  }
+  if (candidates.length === 0 && !text.includes("```")) {
+    candidates.push(text);
+  }
+  return candidates
+    .map((candidate) => candidate.replace(/\s+$/, ""))
+    .filter((candidate) => candidate.trim().length > 0);
+}
+
+/** Import statements from the top of the file. */
+function collectImports(document: vscode.TextDocument): string[] {
+  const imports: string[] = [];
+  for (
+    let line = 0;
+    line < document.lineCount && imports.length < MAX_IMPORT_LINES;
+    line++
+  ) {
+    const text = document.lineAt(line).text;
+    if (IMPORT_PATTERN.test(text)) {
+      imports.push(text);
+    }
+  }
+  return imports;
+}
+
+/**
+ * Header lines of the classes and functions containing `position`, outermost
+ * first, taken from the language's document symbols.
+ */
+async function getEnclosingSignatures(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): Promise<string[]> {
+  let symbols: vscode.DocumentSymbol[] | undefined;
+  try {
+    symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+      "vscode.executeDocumentSymbolProvider",
+      document.uri
+    );
+  } catch {
+    return [];
+  }
+
+  const signatures: string[] = [];
+  let level = (symbols ?? []).filter((symbol) => "children" in symbol);
+  while (level.length > 0) {
+    const enclosing = level.find(
+      (symbol) =>
+        symbol.range.contains(position) &&
+        symbol.range.start.line !== position.line
+    );
+    if (!enclosing) {
+      break;
+    }
+    const start = enclosing.range.start.line;
+    // Multi-line signatures run until the line that opens the body
+    const end = Math.min(
+      enclosing.selectionRange.end.line + 3,
+      position.line - 1
+    );
+    const lines: string[] = [];
+    for (let line = start; line <= end; line++) {
+      const text = document.lineAt(line).text;
+      lines.push(text);
+      if (/[{:]\s*$|=>\s*$/.test(text)) {
+        break;
+      }
+    }
+    signatures.push(lines.join("\n"));
+    level = enclosing.children;
+  }
+  return signatures;
+}
+
+/**
+ * Removes what the model repeated around the cursor: an echo of the current
+ * line's prefix at the start, and trailing text or lines that already follow
+ * the cursor.
+ */
+export function trimOverlap(
+  completion: string,
+  linePrefix: string,
+  suffix: string
+): string {
+  let result = completion;
+
+  const typed = linePrefix.trimStart();
+  if (typed && result.trimStart().startsWith(typed)) {
+    result = result.trimStart().slice(typed.length);
+  }
+
+  const lineSuffix = suffix.split("\n", 1)[0].trim();
+  const suffixLines = suffix
+    .split("\n")
+    .slice(1)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const lines = result.split("\n");
+
+  // Drop trailing lines that repeat the start of the following code
+  for (let k = Math.min(lines.length, suffixLines.length); k > 0; k--) {
+    const tail = lines.slice(-k).map((line) => line.trim());
+    if (tail.every((line, i) => line === suffixLines[i])) {
+      lines.splice(lines.length - k, k);
+      break;
+    }
+  }
+  result = lines.join("\n").replace(/\s+$/, "");
+
+  if (lineSuffix && result.endsWith(lineSuffix)) {
+    result = result.slice(0, -lineSuffix.length);
+  }
+  return result;
+}
 
 export class PerplexityCompletionProvider
   implements vscode.InlineCompletionItemProvider
 {
-  private debounceTimer?: NodeJS.Timeout;
-  // Removed unused: private lastPosition?: vscode.Position;
-  // Removed unused: private lastCompletion?: string;
+  /** Cancels the request currently waiting out the debounce delay. */
+  private pendingDebounce?: () => void;
+  private readonly cache = new LruCache<string, string>(COMPLETION_CACHE_SIZE);
+  private readonly inFlight = new Map<string, InFlightRequest>();
 
-  constructor(private context: vscode.ExtensionContext) {}
+  constructor(
+    private client: PerplexityClient,
+    private readonly metrics: CompletionMetrics
+  ) {}
 
   async provideInlineCompletionItems(
     document: vscode.TextDocument,
-    position: vscode.Position
+    position: vscode.Position,
+    _context: vscode.InlineCompletionContext,
+    token: vscode.CancellationToken
   ): Promise<vscode.InlineCompletionItem[] | undefined> {
     const config = vscode.workspace.getConfiguration("perplexityAI");
-    const enabled = config.get("completionEnabled", true);
+    const policy = resolveCompletionPolicy(document);
 
-    if (!enabled) {
+    if (!policy.enabled) {
       return undefined;
     }
 
-    // Debouncing logic
-    if (this.debounceTimer) {
-      clearTimeout(this.debounceTimer);
+    if (
+      !(await this.debounce(config.get("completionDebounceMs", 500), token))
+    ) {
+      return undefined;
+    }
+
+    try {
+      const apiKey = await this.client.getApiKey();
+      if (!apiKey || token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const linePrefix = document
+        .lineAt(position.line)
+        .text.substring(0, position.character);
+
+      // Check if it's a prompt-based request (comment)
+      const isPromptRequest =
+        linePrefix.trim().startsWith("//") ||
+        linePrefix.trim().startsWith("#") ||
+        linePrefix.trim().startsWith("/*");
+
+      if (
+        (isPromptRequest && linePrefix.trim().length < 5) ||
+        (policy.commentOnly && !isPromptRequest)
+      ) {
+        return undefined;
+      }
+
+      const model = policy.model;
+      const candidates = Math.min(
+        Math.max(1, config.get("completionCandidates", 3)),
+        MAX_COMPLETION_CANDIDATES
+      );
+      const { prompt, prefix, suffix } = await this.buildPrompt(
+        document,
+        position,
+        isPromptRequest,
+        model,
+        candidates
+      );
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const completion = await this.requestCompletion(
+        createHash("sha1")
+          .update(`${model}\0${candidates}\0${prefix}\0${suffix}`)
+          .digest("hex"),
+        prompt,
+        model,
+        COMPLETION_MAX_TOKENS * candidates,
+        document.languageId,
+        token
+      );
+      if (!completion) {
+        return undefined;
+      }
+
+      // VS Code cycles through the items (Alt+] / Alt+[) and supports
+      // accepting them word by word or line by line
+      const texts = extractCodeCandidates(completion)
+        .map((candidate) =>
+          limitCompletionLines(
+            trimOverlap(candidate, linePrefix, suffix),
+            policy
+          )
+        )
+        .filter((text) => text.trim().length > 0);
+      const unique = [...new Set(texts)].slice(0, candidates);
+      if (unique.length === 0) {
+        return undefined;
+      }
+
+      const shownId = this.metrics.trackShown(
+        document,
+        position,
+        unique,
+        model
+      );
+      return unique.map((text) => {
+        const item = new vscode.InlineCompletionItem(
+          text,
+          new vscode.Range(position, position)
+        );
+        item.command = {
+          command: CompletionMetrics.acceptCommand,
+          title: "Record accepted completion",
+          arguments: [shownId],
+        };
+        return item;
+      });
+    } catch (error) {
+      if (!token.isCancellationRequested) {
+        console.error("Completion error:", error);
+      }
+      return undefined;
     }
+  }
 
+  /**
+   * Waits for the typing pause. Resolves false when a newer request
+   * supersedes this one or VS Code cancels it.
+   */
+  private debounce(
+    delayMs: number,
+    token: vscode.CancellationToken
+  ): Promise<boolean> {
+    this.pendingDebounce?.();
     return new Promise((resolve) => {
-      this.debounceTimer = setTimeout(async () => {
-        try {
-          const apiKey = await this.context.secrets.get("perplexity-api-key");
-          if (!apiKey) {
-            resolve(undefined);
-            return;
-          }
-
-          const linePrefix = document
-            .lineAt(position.line)
-            .text.substring(0, position.character);
-
-          // Check if it's a prompt-based request (comment)
-          const isPromptRequest =
-            linePrefix.trim().startsWith("//") ||
-            linePrefix.trim().startsWith("#") ||
-            linePrefix.trim().startsWith("/*");
-
-          if (isPromptRequest && linePrefix.trim().length < 5) {
-            resolve(undefined);
-            return;
-          }
-
-          // Get context (previous lines)
-          const contextLines = Math.min(position.line, 20);
-          const contextStart = Math.max(0, position.line - contextLines);
-          const contextRange = new vscode.Range(
-            contextStart,
-            0,
-            position.line,
-            position.character
-          );
-          const context = document.getText(contextRange);
-
-          let prompt: string;
-          if (isPromptRequest) {
-            const commentText = linePrefix
-              .replace(/^[\s]*[\/\/#\*]+[\s]*/, "")
-              .trim();
-            prompt = `Generate code based on this instruction: "${commentText}". Language: ${document.languageId}. Provide only the code, no explanations.`;
-          } else {
-            prompt = `Continue this ${document.languageId} code naturally. Context:\n${context}\n\nProvide only the next line(s) of code, no explanations:`;
-          }
-
-          const completion = await this.getCompletion(
-            apiKey,
-            prompt,
-            document.languageId
-          );
-
-          if (completion && completion.trim()) {
-            const cleanedCompletion = this.cleanResponse(completion);
-
-            if (cleanedCompletion) {
-              const item = new vscode.InlineCompletionItem(
-                cleanedCompletion,
-                new vscode.Range(position, position)
-              );
-              resolve([item]);
-              return;
-            }
-          }
-
-          resolve(undefined);
-        } catch (error) {
-          console.error("Completion error:", error);
-          resolve(undefined);
+      const finish = (proceed: boolean) => {
+        clearTimeout(timer);
+        listener.dispose();
+        if (this.pendingDebounce === supersede) {
+          this.pendingDebounce = undefined;
         }
-      }, 500); // 500ms debounce
+        resolve(proceed);
+      };
+      const supersede = () => finish(false);
+      const timer = setTimeout(() => finish(true), delayMs);
+      const listener = token.onCancellationRequested(supersede);
+      this.pendingDebounce = supersede;
     });
   }
 
-  private async getCompletion(
-    apiKey: string,
+  /**
+   * Serves repeated requests from the cache and shares one API call between
+   * identical concurrent requests. The call is aborted once every request
+   * waiting on it has been cancelled.
+   */
+  private requestCompletion(
+    key: string,
     prompt: string,
-    _language: string
-  ): Promise<string> {
-    const config = vscode.workspace.getConfiguration("perplexityAI");
-    const model = config.get("completionModel", "sonar");
-
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        "content-type": "application/json",
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 200,
-        temperature: 0.2,
-        stream: false,
-      }),
+    model: string,
+    maxTokens: number,
+    language: string,
+    token: vscode.CancellationToken
+  ): Promise<string | undefined> {
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return Promise.resolve(cached);
+    }
+
+    let request = this.inFlight.get(key);
+    if (!request) {
+      const controller = new AbortController();
+      const started = Date.now();
+      const created: InFlightRequest = {
+        controller,
+        waiters: 0,
+        settled: false,
+        promise: this.getCompletion(prompt, model, maxTokens, controller.signal)
+          .then((completion) => {
+            this.metrics.recordRequest(
+              language,
+              model,
+              Date.now() - started,
+              completion.usage
+            );
+            this.cache.set(key, completion.content);
+            return completion.content;
+          })
+          .finally(() => {
+            created.settled = true;
+            this.inFlight.delete(key);
+          }),
+      };
+      request = created;
+      this.inFlight.set(key, request);
+    }
+
+    const shared = request;
+    shared.waiters++;
+    return new Promise((resolve, reject) => {
+      let released = false;
+      const release = () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        listener.dispose();
+        if (--shared.waiters === 0 && !shared.settled) {
+          shared.controller.abort();
+        }
+      };
+      const listener = token.onCancellationRequested(() => {
+        release();
+        resolve(undefined);
+      });
+      shared.promise.then(
+        (completion) => {
+          release();
+          resolve(completion);
+        },
+        (error) => {
+          release();
+          reject(error);
+        }
+      );
     });
+  }
+
+  /**
+   * Fill-in-the-middle prompt: the code before and after the cursor, plus the
+   * file's imports and enclosing signatures when the prefix had to be cut.
+   */
+  private async buildPrompt(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    isPromptRequest: boolean,
+    model: string,
+    candidates: number
+  ): Promise<{ prompt: string; prefix: string; suffix: string }> {
+    const budget = TokenBudget.forModel(
+      model,
+      COMPLETION_MAX_TOKENS * candidates,
+      COMPLETION_CONTEXT_TOKENS
+    );
 
-    if (!response.ok) {
-      throw new Error(`API request failed: ${response.status}`);
+    const fullPrefix = document.getText(
+      new vscode.Range(new vscode.Position(0, 0), position)
+    );
+    const fullSuffix = document.getText(
+      new vscode.Range(
+        position,
+        document.lineAt(document.lineCount - 1).range.end
+      )
+    );
+
+    const sections: string[] = [
+      `File: ${vscode.workspace.asRelativePath(document.uri)} (${document.languageId})`,
+    ];
+    // Only worth the tokens when the prefix will not show them anyway
+    if (estimateTokens(fullPrefix) > budget.available * 0.6) {
+      const imports = collectImports(document);
+      if (imports.length > 0) {
+        sections.push(
+          `Imports:\n${budget.fit("imports", imports.join("\n"), "head", 0.15)}`
+        );
+      }
+      const signatures = await getEnclosingSignatures(document, position);
+      if (signatures.length > 0) {
+        sections.push(
+          `Enclosing scope:\n${budget.fit("enclosing scope", signatures.join("\n"), "tail", 0.15)}`
+        );
+      }
     }
 
-    const data = (await response.json()) as {
-      choices: { message?: { content?: string } }[];
-    };
-    return data.choices[0]?.message?.content || "";
+    const prefix = budget.fit("code before cursor", fullPrefix, "tail", 0.7);
+    const suffix = budget.fit("code after cursor", fullSuffix, "head");
+    sections.push(`Code:\n${prefix}${CURSOR_MARKER}${suffix}`);
+
+    const task = isPromptRequest
+      ? `The comment before ${CURSOR_MARKER} is an instruction. Write the code it asks for.`
+      : `Write the code that belongs at ${CURSOR_MARKER}.`;
+    const format =
+      candidates > 1
+        ? `Reply with up to ${candidates} different alternatives, most likely first, each in its own fenced code block containing only the code to insert at ${CURSOR_MARKER}.`
+        : `Reply with one fenced code block containing only the code to insert at ${CURSOR_MARKER}.`;
+    const prompt = `You are a code completion engine. ${task}\n\n${sections.join("\n\n")}\n\n${format} Do not repeat code before or after it, and do not add explanations.`;
+    return { prompt, prefix, suffix };
   }
 
-  private cleanResponse(response: string): string {
-    // Remove code block markers
-    let cleaned = response.replace(/```[\w]*/g, "");
-
-    // Remove explanatory text (lines starting with certain patterns)
-    const lines = cleaned.split("\n");
-    const codeLinesOnly = lines.filter((line) => {
-      const trimmed = line.trim();
-      return (
-        !trimmed.startsWith("Here") &&
-        !trimmed.startsWith("This") &&
-        !trimmed.startsWith("The") &&
-        !trimmed.startsWith("Note:") &&
-        !trimmed.match(/^(Explanation|Example|Output):/i)
-      );
+  private async getCompletion(
+    prompt: string,
+    model: string,
+    maxTokens: number,
+    signal: AbortSignal
+  ): Promise<PerplexityCompletion> {
+    return this.client.complete([{ role: "user", content: prompt }], {
+      model,
+      maxTokens,
+      signal,
     });
-
-    return codeLinesOnly.join("\n").trim();
   }
 
   outputChannel = vscode.window.createOutputChannel("PerplexityAI");
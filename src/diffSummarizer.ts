@@ -0,0 +1,274 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { PerplexityClient } from "./perplexityClient";
+import { estimateTokens, TokenBudget, trimToTokens } from "./tokenBudget";
+
+/** Diffs up to this size are sent whole instead of being summarised. */
+const SINGLE_PASS_TOKENS = 16_000;
+/** Input size of one summarisation request. */
+const MAP_CHUNK_TOKENS = 6000;
+const MAP_MAX_TOKENS = 400;
+const MAX_PARALLEL_SUMMARIES = 4;
+/** Files beyond this many requests are described by their stats only. */
+const MAX_SUMMARY_REQUESTS = 24;
+
+const LOCKFILES = new Set([
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lockb",
+  "Cargo.lock",
+  "Gemfile.lock",
+  "poetry.lock",
+  "Pipfile.lock",
+  "composer.lock",
+  "go.sum",
+  "flake.lock",
+  "packages.lock.json",
+]);
+
+const GENERATED_PATH_PATTERN =
+  /(?:^|\/)(?:dist|out|build|generated|__generated__|vendor|node_modules)\/|\.min\.(?:js|css)$|\.map$|\.snap$|\.pb\.go$|_pb2\.py$|\.g\.dart$|\.designer\.cs$|(?:^|[._-])generated\.\w+$/;
+const GENERATED_MARKER_PATTERN =
+  /@generated|do not edit|auto-?generated|generated by/i;
+
+export type FileDiffKind = "source" | "lockfile" | "generated" | "binary";
+
+export interface FileDiff {
+  path: string;
+  /** The file's section of the unified diff, header included. */
+  text: string;
+  additions: number;
+  deletions: number;
+  kind: FileDiffKind;
+}
+
+const SUMMARY_INSTRUCTIONS = `Summarise the following git diff for someone writing a commit message or change review. For each file, reply with one Markdown bullet "- \`path\`: summary" describing in one or two sentences what changed and, where it is evident, why. Mention renamed or removed APIs and behaviour changes. Do not describe formatting-only changes in detail.`;
+
+function classify(filePath: string, text: string): FileDiffKind {
+  if (
+    /^Binary files .* differ$/m.test(text) ||
+    text.includes("GIT binary patch")
+  ) {
+    return "binary";
+  }
+  if (LOCKFILES.has(path.posix.basename(filePath))) {
+    return "lockfile";
+  }
+  const firstAdded = text
+    .split("\n")
+    .filter((line) => line.startsWith("+") && !line.startsWith("+++"))
+    .slice(0, 20)
+    .join("\n");
+  return GENERATED_PATH_PATTERN.test(filePath) ||
+    GENERATED_MARKER_PATTERN.test(firstAdded)
+    ? "generated"
+    : "source";
+}
+
+/** Splits a unified diff into per-file sections with their line stats. */
+export function parseDiff(diff: string): FileDiff[] {
+  return diff
+    .split(/^(?=diff --git )/m)
+    .filter((section) => section.startsWith("diff --git "))
+    .map((text) => {
+      const lines = text.split("\n");
+      const header = lines[0].match(/^diff --git a\/.+? b\/(.+)$/);
+      const target =
+        text.match(/^rename to (.+)$/m)?.[1] ??
+        text.match(/^\+\+\+ b\/(.+)$/m)?.[1] ??
+        text.match(/^--- a\/(.+)$/m)?.[1] ??
+        header?.[1] ??
+        "unknown";
+      let additions = 0;
+      let deletions = 0;
+      for (const line of lines) {
+        if (line.startsWith("+") && !line.startsWith("+++")) {
+          additions++;
+        } else if (line.startsWith("-") && !line.startsWith("---")) {
+          deletions++;
+        }
+      }
+      return {
+        path: target,
+        text,
+        additions,
+        deletions,
+        kind: classify(target, text),
+      };
+    });
+}
+
+export function formatDiffStats(file: FileDiff): string {
+  return file.kind === "binary"
+    ? `- \`${file.path}\` (binary)`
+    : `- \`${file.path}\` (${file.kind === "source" ? "" : `${file.kind}, `}+${file.additions} -${file.deletions})`;
+}
+
+/** Splits a file's diff at hunk boundaries into parts of at most `maxTokens`. */
+function splitHunks(file: FileDiff, maxTokens: number): string[] {
+  const [header, ...hunks] = file.text.split(/^(?=@@ )/m);
+  const parts: string[] = [];
+  let current = header;
+  for (const hunk of hunks) {
+    if (current !== header && estimateTokens(current + hunk) > maxTokens) {
+      parts.push(current);
+      current = header;
+    }
+    current += trimToTokens(hunk, maxTokens - estimateTokens(header), "middle");
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Packs small files together and splits large ones into hunk groups. */
+export function toChunks(
+  files: FileDiff[],
+  maxTokens = MAP_CHUNK_TOKENS
+): Array<{ paths: string[]; text: string }> {
+  const chunks: Array<{ paths: string[]; text: string }> = [];
+  let current: { paths: string[]; text: string } | undefined;
+  for (const file of files) {
+    for (const part of splitHunks(file, maxTokens)) {
+      if (!current || estimateTokens(current.text + part) > maxTokens) {
+        current = { paths: [], text: "" };
+        chunks.push(current);
+      }
+      if (!current.paths.includes(file.path)) {
+        current.paths.push(file.path);
+      }
+      current.text += part;
+    }
+  }
+  return chunks;
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Prepares a diff for a single prompt. Lockfiles, generated and binary files
+ * are reduced to their stats. When the rest does not fit, it is summarised
+ * file by file in parallel (map) so the final request (reduce) sees every
+ * file instead of a truncated diff.
+ */
+export class DiffSummarizer {
+  constructor(private readonly client: PerplexityClient) {}
+
+  /**
+   * Returns the prompt section describing `diff`. `instructions` and
+   * `responseTokens` are those of the final request.
+   */
+  public async prepare(
+    diff: string,
+    instructions: string,
+    responseTokens: number,
+    progress?: vscode.Progress<{ message?: string }>
+  ): Promise<string> {
+    const files = parseDiff(diff);
+    if (files.length === 0) {
+      const budget = TokenBudget.forModel(undefined, responseTokens);
+      budget.reserve(instructions);
+      const fitted = budget.fit("Git diff", diff, "middle");
+      budget.reportTrimmed();
+      return `Git diff:\n\`\`\`diff\n${fitted.trimEnd()}\n\`\`\``;
+    }
+
+    const sources = files.filter((file) => file.kind === "source");
+    const others = files.filter((file) => file.kind !== "source");
+    const statsSection =
+      others.length > 0
+        ? `\n\nLockfiles, generated and binary files (stats only):\n${others.map(formatDiffStats).join("\n")}`
+        : "";
+
+    const budget = TokenBudget.forModel(
+      undefined,
+      responseTokens,
+      SINGLE_PASS_TOKENS
+    );
+    budget.reserve(instructions);
+    budget.reserve(statsSection);
+
+    const sourceDiff = sources.map((file) => file.text).join("");
+    if (estimateTokens(sourceDiff) <= budget.available) {
+      return sourceDiff.trim()
+        ? `Git diff:\n\`\`\`diff\n${sourceDiff.trimEnd()}\n\`\`\`${statsSection}`
+        : statsSection.trim();
+    }
+
+    const chunks = toChunks(sources);
+    const summarized = chunks.slice(0, MAX_SUMMARY_REQUESTS);
+    // A file split across the cutoff is partly summarised; do not list it
+    const summarizedPaths = new Set(summarized.flatMap((chunk) => chunk.paths));
+    const skipped = new Set(
+      chunks
+        .slice(MAX_SUMMARY_REQUESTS)
+        .flatMap((chunk) => chunk.paths)
+        .filter((filePath) => !summarizedPaths.has(filePath))
+    );
+
+    let done = 0;
+    progress?.report({
+      message: `Summarising ${sources.length} files in ${summarized.length} parts...`,
+    });
+    const summaries = await mapWithConcurrency(
+      summarized,
+      MAX_PARALLEL_SUMMARIES,
+      async (chunk) => {
+        try {
+          const completion = await this.client.complete(
+            [
+              { role: "system", content: SUMMARY_INSTRUCTIONS },
+              { role: "user", content: chunk.text },
+            ],
+            { maxTokens: MAP_MAX_TOKENS }
+          );
+          return completion.content.trim();
+        } catch (error) {
+          console.error("Diff summary failed:", error);
+          // Fall back to stats so one failed part does not lose the files
+          return sources
+            .filter((file) => chunk.paths.includes(file.path))
+            .map(formatDiffStats)
+            .join("\n");
+        } finally {
+          progress?.report({
+            message: `Summarised ${++done}/${summarized.length} parts`,
+          });
+        }
+      }
+    );
+
+    const unsummarized = sources
+      .filter((file) => skipped.has(file.path))
+      .map(formatDiffStats)
+      .join("\n");
+    const section = [
+      `The diff (${files.length} files, +${files.reduce((sum, file) => sum + file.additions, 0)} -${files.reduce((sum, file) => sum + file.deletions, 0)}) is too large to include, so each file was summarised:`,
+      summaries.join("\n"),
+      unsummarized && `Not summarised (stats only):\n${unsummarized}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    const fitted = budget.fit("Per-file summaries", section, "middle");
+    budget.reportTrimmed();
+    return `${fitted}${statsSection}`;
+  }
+}
@@ -1,9 +1,39 @@
 import * as vscode from "vscode";
 import { PerplexityCustomChatProvider } from "./chatProvider";
 import { CodeActionsProvider } from "./codeActionsProvider";
+import { CodeBlockApplier } from "./codeBlockApplier";
 import { CommitAssistant } from "./commitAssistant";
+import { CompletionMetrics } from "./completionMetrics";
+import { CompletionStatusBar } from "./completionPolicy";
 import { PerplexityCompletionProvider } from "./completionProvider";
+import { LineHistoryExplainer } from "./lineHistory";
+import {
+  API_KEY_SECRET,
+  formatSourcesMarkdown,
+  getCompletionSources,
+  PerplexityClient,
+  PerplexityCompletion,
+} from "./perplexityClient";
+import {
+  BUILTIN_PROMPT_TEMPLATES,
+  getTemplateCommandId,
+  PromptLibrary,
+  PROMPT_TEMPLATES_DIR,
+  renderPromptTemplate,
+  reportPromptLoadFailure,
+  serializeTemplate,
+} from "./promptTemplates";
+import { PullRequestAssistant } from "./pullRequestAssistant";
+import {
+  locateFinding,
+  parseFindings,
+  REVIEW_FINDINGS_FORMAT,
+  ReviewDiagnostics,
+  ReviewFinding,
+} from "./reviewFindings";
 import { PerplexitySettingsProvider } from "./settingsProvider";
+import { StagedChangesReviewer } from "./stagedReview";
+import { TokenBudget } from "./tokenBudget";
 
 // Removed local stub classes for CodeActionsProvider, CommitAssistant, and PerplexityCompletionProvider
 // Using imported implementations instead
@@ -14,6 +44,9 @@ import { PerplexitySettingsProvider } from "./settingsProvider";
 // import { PerplexityCompletionProvider } from "./completionProvider";
 
 let chatViewRegistered = false;
+let perplexityClient: PerplexityClient;
+let promptLibrary: PromptLibrary;
+let reviewDiagnostics: ReviewDiagnostics;
 
 export function activate(context: vscode.ExtensionContext) {
   console.log("Perplexity AI Assistant is now active!");
@@ -21,17 +54,38 @@ export function activate(context: vscode.ExtensionContext) {
   vscode.commands.executeCommand("setContext", "perplexity-ai.enabled", true);
 
   // Initialize Providers
+  perplexityClient = new PerplexityClient(context);
+  const codeBlockApplier = new CodeBlockApplier();
   const chatProvider = new PerplexityCustomChatProvider(
     context.extensionUri,
-    context
+    context,
+    perplexityClient,
+    codeBlockApplier
   );
   const settingsProvider = new PerplexitySettingsProvider(
     context.extensionUri,
-    context
+    context,
+    perplexityClient
   );
-  const completionProvider = new PerplexityCompletionProvider(context);
-  const commitAssistant = new CommitAssistant(context);
-  const codeActionsProvider = new CodeActionsProvider(context);
+  const completionMetrics = new CompletionMetrics(context.globalStorageUri);
+  const completionProvider = new PerplexityCompletionProvider(
+    perplexityClient,
+    completionMetrics
+  );
+  const commitAssistant = new CommitAssistant(
+    perplexityClient,
+    codeBlockApplier
+  );
+  const pullRequestAssistant = new PullRequestAssistant(perplexityClient);
+  reviewDiagnostics = new ReviewDiagnostics();
+  const stagedReviewer = new StagedChangesReviewer(
+    perplexityClient,
+    reviewDiagnostics
+  );
+  const lineHistoryExplainer = new LineHistoryExplainer(perplexityClient);
+  context.subscriptions.push(reviewDiagnostics, lineHistoryExplainer);
+  promptLibrary = new PromptLibrary();
+  const codeActionsProvider = new CodeActionsProvider(promptLibrary);
 
   // Register Chat View Provider
   if (!chatViewRegistered) {
@@ -44,13 +98,28 @@ export function activate(context: vscode.ExtensionContext) {
     chatViewRegistered = true;
   }
 
+  // Register Proposed Change Preview Provider
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(
+      CodeBlockApplier.scheme,
+      codeBlockApplier
+    )
+  );
+
   // Register Inline Completion Provider
+  // Real documents only; per-language and per-path rules are applied by the
+  // provider so they can change without re-registering
   const completionDisposable =
     vscode.languages.registerInlineCompletionItemProvider(
-      { pattern: "**" },
+      [{ scheme: "file" }, { scheme: "untitled" }],
       completionProvider
     );
-  context.subscriptions.push(completionDisposable);
+  const completionStatusBar = new CompletionStatusBar();
+  context.subscriptions.push(
+    completionDisposable,
+    completionStatusBar,
+    completionMetrics
+  );
 
   // Register Code Actions Provider
   const codeActionsDisposable = vscode.languages.registerCodeActionsProvider(
@@ -62,6 +131,31 @@ export function activate(context: vscode.ExtensionContext) {
   );
   context.subscriptions.push(codeActionsDisposable);
 
+  // Register Workspace Prompt Templates
+  // Built-in ids keep their contributed commands; other templates get one
+  // registered here and re-registered whenever the library reloads.
+  let templateCommands: vscode.Disposable[] = [];
+  const registerTemplateCommands = () => {
+    templateCommands.forEach((command) => command.dispose());
+    templateCommands = promptLibrary
+      .all()
+      .filter(
+        (template) =>
+          !BUILTIN_PROMPT_TEMPLATES.some((b) => b.id === template.id)
+      )
+      .map((template) =>
+        vscode.commands.registerCommand(getTemplateCommandId(template), () =>
+          runPromptTemplate(context, template.id)
+        )
+      );
+  };
+  context.subscriptions.push(
+    promptLibrary,
+    promptLibrary.onDidChange(registerTemplateCommands),
+    { dispose: () => templateCommands.forEach((command) => command.dispose()) }
+  );
+  promptLibrary.load().catch(reportPromptLoadFailure);
+
   // Register Commands
   const commands = [
     // Chat Commands
@@ -80,29 +174,17 @@ export function activate(context: vscode.ExtensionContext) {
     ),
 
     // Code Actions
-    vscode.commands.registerCommand("perplexity-ai.explainCode", () =>
-      explainSelectedCode(context)
-    ),
-    vscode.commands.registerCommand("perplexity-ai.optimizeCode", () =>
-      optimizeCode(context)
-    ),
-    vscode.commands.registerCommand("perplexity-ai.findBugs", () =>
-      findBugs(context)
-    ),
-    vscode.commands.registerCommand("perplexity-ai.generateComments", () =>
-      generateComments(context)
-    ),
-    vscode.commands.registerCommand("perplexity-ai.refactorCode", () =>
-      refactorCode(context)
+    ...BUILTIN_PROMPT_TEMPLATES.map((template) =>
+      vscode.commands.registerCommand(getTemplateCommandId(template), () =>
+        runPromptTemplate(context, template.id)
+      )
     ),
-    vscode.commands.registerCommand("perplexity-ai.generateTests", () =>
-      generateTests(context)
+    vscode.commands.registerCommand("perplexity-ai.runPromptTemplate", () =>
+      pickPromptTemplate(context)
     ),
-    vscode.commands.registerCommand("perplexity-ai.convertCode", () =>
-      convertCode(context)
-    ),
-    vscode.commands.registerCommand("perplexity-ai.reviewCode", () =>
-      reviewCode(context)
+    vscode.commands.registerCommand(
+      "perplexity-ai.customizePromptTemplate",
+      () => customizePromptTemplate()
     ),
 
     // Completion Commands
@@ -114,6 +196,20 @@ export function activate(context: vscode.ExtensionContext) {
         "Perplexity inline completions enabled"
       );
     }),
+    vscode.commands.registerCommand(CompletionStatusBar.toggleCommand, () =>
+      completionStatusBar.toggle()
+    ),
+    vscode.commands.registerCommand(
+      CompletionMetrics.acceptCommand,
+      (id: string) => completionMetrics.markAccepted(id)
+    ),
+    vscode.commands.registerCommand("perplexity-ai.showCompletionMetrics", () =>
+      completionMetrics.showReport()
+    ),
+    vscode.commands.registerCommand(
+      "perplexity-ai.resetCompletionMetrics",
+      () => completionMetrics.reset()
+    ),
     vscode.commands.registerCommand("perplexity-ai.disableCompletion", () => {
       vscode.workspace
         .getConfiguration("perplexityAI")
@@ -124,15 +220,45 @@ export function activate(context: vscode.ExtensionContext) {
     }),
 
     // Commit Assistant Commands
-    vscode.commands.registerCommand("perplexity-ai.generateCommit", () =>
-      commitAssistant.generateCommitMessage()
+    // The Source Control view passes the repository it was invoked on
+    vscode.commands.registerCommand(
+      "perplexity-ai.generateCommit",
+      (source?: unknown) => commitAssistant.generateCommitMessage(source)
     ),
     vscode.commands.registerCommand(
       "perplexity-ai.generateCommitForStaged",
-      () => commitAssistant.generateCommitForStaged()
+      (source?: unknown) => commitAssistant.generateCommitForStaged(source)
+    ),
+    vscode.commands.registerCommand(
+      "perplexity-ai.analyzeChanges",
+      (source?: unknown) => commitAssistant.analyzeChanges(source)
+    ),
+    vscode.commands.registerCommand(
+      "perplexity-ai.reviewStagedChanges",
+      (source?: unknown) => stagedReviewer.reviewStaged(source)
     ),
-    vscode.commands.registerCommand("perplexity-ai.analyzeChanges", () =>
-      commitAssistant.analyzeChanges()
+    vscode.commands.registerCommand(
+      "perplexity-ai.commitWithReview",
+      (source?: unknown) => stagedReviewer.commitWithReview(source)
+    ),
+    vscode.commands.registerCommand("perplexity-ai.clearReviewFindings", () =>
+      reviewDiagnostics.clear()
+    ),
+    vscode.commands.registerCommand("perplexity-ai.explainLineHistory", () =>
+      lineHistoryExplainer.explainSelection()
+    ),
+    vscode.commands.registerCommand(
+      LineHistoryExplainer.openCommitCommand,
+      (documentUri: string, hash: string) =>
+        lineHistoryExplainer.openCommit(documentUri, hash)
+    ),
+    vscode.commands.registerCommand(
+      "perplexity-ai.generateChangelog",
+      (source?: unknown) => commitAssistant.generateChangelog(source)
+    ),
+    vscode.commands.registerCommand(
+      "perplexity-ai.generatePullRequest",
+      (source?: unknown) => pullRequestAssistant.generateDescription(source)
     ),
 
     // Session Management
@@ -168,10 +294,33 @@ export function activate(context: vscode.ExtensionContext) {
         );
       }
     }),
-    // Remove exportCurrentChat if not implemented in chatProvider
-    // vscode.commands.registerCommand("perplexity-ai.exportChat", () =>
-    //   chatProvider.exportCurrentChat()
-    // ),
+    vscode.commands.registerCommand("perplexity-ai.exportChat", () =>
+      chatProvider.exportCurrentChat()
+    ),
+    vscode.commands.registerCommand("perplexity-ai.exportChats", () =>
+      chatProvider.exportChats()
+    ),
+    vscode.commands.registerCommand("perplexity-ai.importChat", () =>
+      chatProvider.importChats()
+    ),
+    vscode.commands.registerCommand("perplexity-ai.searchChats", () =>
+      chatProvider.searchChats()
+    ),
+    vscode.commands.registerCommand("perplexity-ai.renameChat", () =>
+      chatProvider.renameSession()
+    ),
+    vscode.commands.registerCommand("perplexity-ai.pinChat", () =>
+      chatProvider.togglePinSession()
+    ),
+    vscode.commands.registerCommand("perplexity-ai.duplicateChat", () =>
+      chatProvider.duplicateSession()
+    ),
+    vscode.commands.registerCommand("perplexity-ai.deleteChat", () =>
+      chatProvider.deleteSession()
+    ),
+    vscode.commands.registerCommand("perplexity-ai.undoLastApply", () =>
+      codeBlockApplier.undoLastApply()
+    ),
     vscode.commands.registerCommand("perplexity-ai.openSettings", () =>
       settingsProvider.show()
     ),
@@ -239,99 +388,23 @@ async function selectModel(_context: vscode.ExtensionContext) {
   }
 }
 
-// Generate Tests
-async function generateTests(context: vscode.ExtensionContext) {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor) {
-    return;
-  }
-
-  const selection = editor.selection;
-  const selectedText = editor.document.getText(selection);
-
-  if (!selectedText) {
-    vscode.window.showWarningMessage("No code selected");
-    return;
-  }
-
-  const apiKey = await getApiKey(context);
-  if (!apiKey) {
-    return;
-  }
-
-  const prompt = `Generate comprehensive unit tests for this code. Use appropriate testing framework for the language:\n\n\`\`\`${editor.document.languageId}\n${selectedText}\n\`\`\``;
-  await executeCodeCommand(apiKey, prompt, "Test Generation");
-}
-
-// Convert Code
-async function convertCode(context: vscode.ExtensionContext) {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor) {
-    return;
-  }
-
-  const selection = editor.selection;
-  const selectedText = editor.document.getText(selection);
-
-  if (!selectedText) {
-    vscode.window.showWarningMessage("No code selected");
-    return;
-  }
-
-  const targetLanguage = await vscode.window.showInputBox({
-    prompt: "Target programming language",
-    placeHolder: "e.g., Python, Java, TypeScript",
-  });
-
-  if (!targetLanguage) {
-    return;
-  }
-
-  const apiKey = await getApiKey(context);
-  if (!apiKey) {
-    return;
-  }
-
-  const prompt = `Convert this ${editor.document.languageId} code to ${targetLanguage}. Maintain functionality and add comments explaining the conversion:\n\n\`\`\`${editor.document.languageId}\n${selectedText}\n\`\`\``;
-  await executeCodeCommand(apiKey, prompt, "Code Conversion");
-}
-
-// Review Code
-async function reviewCode(context: vscode.ExtensionContext) {
+async function runPromptTemplate(
+  context: vscode.ExtensionContext,
+  templateId: string
+) {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     return;
   }
 
-  const selection = editor.selection;
-  const selectedText = editor.document.getText(selection);
-
-  if (!selectedText) {
-    vscode.window.showWarningMessage("No code selected");
-    return;
-  }
-
-  const apiKey = await getApiKey(context);
-  if (!apiKey) {
-    return;
-  }
-
-  const prompt = `Provide a comprehensive code review for this code. Include:\n1. Code quality assessment\n2. Best practices adherence\n3. Performance considerations\n4. Security concerns\n5. Suggestions for improvement\n\n\`\`\`${editor.document.languageId}\n${selectedText}\n\`\`\``;
-  await executeCodeCommand(apiKey, prompt, "Code Review");
-}
-
-// Existing functions (optimizeCode, findBugs, etc.)
-async function optimizeCode(context: vscode.ExtensionContext) {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor) {
+  const template = promptLibrary.get(templateId);
+  if (!template) {
+    vscode.window.showErrorMessage(`Prompt template "${templateId}" not found`);
     return;
   }
 
-  const selection = editor.selection;
-  const selectedText = editor.document.getText(selection);
-
-  if (!selectedText) {
-    vscode.window.showWarningMessage("No code selected");
+  const prompt = await renderPromptTemplate(template, editor);
+  if (!prompt) {
     return;
   }
 
@@ -340,93 +413,75 @@ async function optimizeCode(context: vscode.ExtensionContext) {
     return;
   }
 
-  const prompt = `Optimize this code for better performance and readability. Provide the optimized version with explanations:\n\n\`\`\`${editor.document.languageId}\n${selectedText}\n\`\`\``;
-  await executeCodeCommand(apiKey, prompt, "Code Optimization");
-}
-
-async function findBugs(context: vscode.ExtensionContext) {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor) {
-    return;
-  }
-
-  const selection = editor.selection;
-  const selectedText = editor.document.getText(selection);
-
-  if (!selectedText) {
-    vscode.window.showWarningMessage("No code selected");
-    return;
-  }
-
-  const apiKey = await getApiKey(context);
-  if (!apiKey) {
-    return;
+  if (template.output === "findings") {
+    await executeReviewCommand(prompt, template.title, editor);
+  } else {
+    await executeCodeCommand(prompt, template.title);
   }
-
-  const prompt = `Analyze this code for potential bugs, security issues, and code smells. Provide detailed explanations and fixes:\n\n\`\`\`${editor.document.languageId}\n${selectedText}\n\`\`\``;
-  await executeCodeCommand(apiKey, prompt, "Bug Analysis");
 }
 
-async function generateComments(context: vscode.ExtensionContext) {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor) {
-    return;
-  }
-
-  const selection = editor.selection;
-  const selectedText = editor.document.getText(selection);
-
-  if (!selectedText) {
-    vscode.window.showWarningMessage("No code selected");
-    return;
-  }
-
-  const apiKey = await getApiKey(context);
-  if (!apiKey) {
-    return;
+async function pickPromptTemplate(context: vscode.ExtensionContext) {
+  const selected = await vscode.window.showQuickPick(
+    promptLibrary.all().map((template) => ({
+      label: template.title,
+      description: template.source === "workspace" ? template.id : undefined,
+      detail: template.description,
+      template,
+    })),
+    { placeHolder: "Select a prompt template to run", matchOnDetail: true }
+  );
+  if (selected) {
+    await runPromptTemplate(context, selected.template.id);
   }
-
-  const prompt = `Add comprehensive comments and documentation to this code. Include function descriptions, parameter explanations, and inline comments:\n\n\`\`\`${editor.document.languageId}\n${selectedText}\n\`\`\``;
-  await executeCodeCommand(apiKey, prompt, "Code Documentation");
 }
 
-async function refactorCode(context: vscode.ExtensionContext) {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor) {
+async function customizePromptTemplate() {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    vscode.window.showWarningMessage(
+      "Open a workspace folder to customize prompt templates."
+    );
     return;
   }
 
-  const selection = editor.selection;
-  const selectedText = editor.document.getText(selection);
-
-  if (!selectedText) {
-    vscode.window.showWarningMessage("No code selected");
+  const selected = await vscode.window.showQuickPick(
+    BUILTIN_PROMPT_TEMPLATES.map((template) => ({
+      label: template.title,
+      description: template.id,
+      template,
+    })),
+    { placeHolder: "Select a built-in prompt template to customize" }
+  );
+  if (!selected) {
     return;
   }
 
-  const apiKey = await getApiKey(context);
-  if (!apiKey) {
-    return;
+  const uri = vscode.Uri.joinPath(
+    folder.uri,
+    PROMPT_TEMPLATES_DIR,
+    `${selected.template.id}.md`
+  );
+  try {
+    await vscode.workspace.fs.stat(uri);
+  } catch {
+    await vscode.workspace.fs.writeFile(
+      uri,
+      Buffer.from(serializeTemplate(selected.template), "utf8")
+    );
   }
-
-  const prompt = `Refactor this code following best practices. Improve code structure, naming conventions, and maintainability:\n\n\`\`\`${editor.document.languageId}\n${selectedText}\n\`\`\``;
-  await executeCodeCommand(apiKey, prompt, "Code Refactoring");
+  await vscode.window.showTextDocument(uri);
 }
 
-async function executeCodeCommand(
-  apiKey: string,
-  prompt: string,
-  title: string
-) {
+async function executeCodeCommand(prompt: string, title: string) {
   await vscode.window.withProgress(
     {
       location: vscode.ProgressLocation.Notification,
       title: `${title} in progress...`,
       cancellable: false,
     },
-    async (progress) => {
+    async () => {
       try {
-        const response = await queryPerplexityAPI(apiKey, prompt);
+        const response = await queryPerplexityAPI(prompt);
         showResponseInNewDocument(response, title);
       } catch (error) {
         vscode.window.showErrorMessage(`Error: ${error}`);
@@ -435,33 +490,79 @@ async function executeCodeCommand(
   );
 }
 
-async function explainSelectedCode(context: vscode.ExtensionContext) {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor) {
-    return;
-  }
-
-  const selection = editor.selection;
-  const selectedText = editor.document.getText(selection);
-
-  if (!selectedText) {
-    vscode.window.showWarningMessage("No code selected");
-    return;
-  }
+/**
+ * Runs a review prompt that replies with structured findings and shows them
+ * as diagnostics on the selected lines. A reply without findings JSON is
+ * shown as a document instead.
+ */
+async function executeReviewCommand(
+  prompt: string,
+  title: string,
+  editor: vscode.TextEditor
+) {
+  const { document, selection } = editor;
+  const reviewed = new vscode.Range(
+    selection.start.line,
+    0,
+    selection.end.line,
+    document.lineAt(selection.end.line).text.length
+  );
 
-  const apiKey = await getApiKey(context);
-  if (!apiKey) {
-    return;
-  }
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `${title} in progress...`,
+      cancellable: false,
+    },
+    async () => {
+      try {
+        const response = await queryPerplexityAPI(
+          `${prompt}\n\n${REVIEW_FINDINGS_FORMAT}`
+        );
+        let findings: ReviewFinding[];
+        try {
+          findings = parseFindings(response.content);
+        } catch {
+          showResponseInNewDocument(response, title);
+          return;
+        }
 
-  const prompt = `Explain this code in detail, including what it does, how it works, and any important concepts:\n\n\`\`\`${editor.document.languageId}\n${selectedText}\n\`\`\``;
-  await executeCodeCommand(apiKey, prompt, "Code Explanation");
+        const located = findings.flatMap((finding) => {
+          const line = locateFinding(document, finding);
+          return line !== undefined &&
+            line >= reviewed.start.line &&
+            line <= reviewed.end.line
+            ? [{ finding, line }]
+            : [];
+        });
+        const placed = reviewDiagnostics.set(document, located, reviewed);
+        if (placed === 0) {
+          vscode.window.showInformationMessage(
+            `${title}: no issues found in the selection.`
+          );
+          return;
+        }
+        vscode.window
+          .showInformationMessage(
+            `${title}: ${placed} issue${placed === 1 ? "" : "s"} found in the selection.`,
+            "Show Problems"
+          )
+          .then((choice) => {
+            if (choice) {
+              vscode.commands.executeCommand("workbench.actions.view.problems");
+            }
+          });
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error: ${error}`);
+      }
+    }
+  );
 }
 
 async function getApiKey(
   context: vscode.ExtensionContext
 ): Promise<string | undefined> {
-  let apiKey = await context.secrets.get("perplexity-api-key");
+  let apiKey = await context.secrets.get(API_KEY_SECRET);
   if (!apiKey) {
     apiKey = await vscode.window.showInputBox({
       prompt: "Enter your Perplexity API Key",
@@ -469,7 +570,7 @@ async function getApiKey(
       ignoreFocusOut: true,
     });
     if (apiKey) {
-      await context.secrets.store("perplexity-api-key", apiKey);
+      await context.secrets.store(API_KEY_SECRET, apiKey);
     }
   }
   return apiKey;
@@ -499,7 +600,7 @@ async function askPerplexity(context: vscode.ExtensionContext) {
     },
     async (_progress) => {
       try {
-        const response = await queryPerplexityAPI(apiKey, question);
+        const response = await queryPerplexityAPI(question);
         showResponseInNewDocument(response, question);
       } catch (error) {
         vscode.window.showErrorMessage(`Error: ${error}`);
@@ -537,7 +638,6 @@ async function askPerplexityWithStreaming(context: vscode.ExtensionContext) {
 
   try {
     await queryPerplexityAPIStream(
-      apiKey,
       question,
       (chunk: string) => {
         responseContent += chunk;
@@ -554,15 +654,25 @@ async function askPerplexityWithStreaming(context: vscode.ExtensionContext) {
         const lastPos = new vscode.Position(lastLine, 0);
         editor.revealRange(new vscode.Range(lastPos, lastPos));
       },
-      () => {
+      (completion) => {
+        const sources = formatSourcesMarkdown(getCompletionSources(completion));
+        if (sources) {
+          editor.edit((editBuilder) => {
+            editBuilder.insert(
+              doc.positionAt(doc.getText().length),
+              `\n\n${sources}`
+            );
+          });
+        }
         vscode.window.showInformationMessage("Response complete!");
       }
     );
   } catch (error) {
     vscode.window.showErrorMessage(`Streaming error: ${error}`);
     try {
-      const response = await queryPerplexityAPI(apiKey, question);
-      const fallbackContent = `# ${question}\n\n${response}\n\n*Note: Streamed response failed, showing complete response*`;
+      const response = await queryPerplexityAPI(question);
+      const sources = formatSourcesMarkdown(getCompletionSources(response));
+      const fallbackContent = `# ${question}\n\n${response.content}\n\n${sources ? `${sources}\n` : ""}*Note: Streamed response failed, showing complete response*`;
       editor.edit((editBuilder) => {
         const fullRange = new vscode.Range(
           doc.positionAt(0),
@@ -601,13 +711,11 @@ async function askWithFileContext(context: vscode.ExtensionContext) {
     const fileName = editor.document.fileName.split("/").pop() || "file";
     const fileContent = editor.document.getText();
     const language = editor.document.languageId;
-    const maxContentLength = 5000;
 
-    const truncatedContent =
-      fileContent.length > maxContentLength
-        ? fileContent.substring(0, maxContentLength) +
-          "\n\n... (file truncated)"
-        : fileContent;
+    const budget = TokenBudget.forModel();
+    budget.reserve(question);
+    const truncatedContent = budget.fit(fileName, fileContent, "outline");
+    budget.reportTrimmed();
 
     contextPrompt = `I'm working on a ${language} file called "${fileName}". Here's the current file content:\n\n\`\`\`${language}\n${truncatedContent}\n\`\`\`\n\nQuestion: ${question}`;
   } else {
@@ -624,7 +732,7 @@ async function askWithFileContext(context: vscode.ExtensionContext) {
     },
     async (_progress) => {
       try {
-        const response = await queryPerplexityAPI(apiKey, contextPrompt);
+        const response = await queryPerplexityAPI(contextPrompt);
         showResponseInNewDocument(response, `File Analysis: ${question}`);
       } catch (error) {
         vscode.window.showErrorMessage(`Error: ${error}`);
@@ -682,6 +790,11 @@ async function askWithWorkspaceContext(context: vscode.ExtensionContext) {
       .slice(0, 30)
       .join("\n");
 
+    const budget = TokenBudget.forModel();
+    budget.reserve(projectInfo);
+    budget.reserve(fileList);
+    budget.reserve(question);
+
     let readmeContent = "";
     try {
       const readmeUri = vscode.Uri.joinPath(
@@ -689,10 +802,11 @@ async function askWithWorkspaceContext(context: vscode.ExtensionContext) {
         "README.md"
       );
       const readme = await vscode.workspace.fs.readFile(readmeUri);
-      readmeContent = readme.toString().substring(0, 2000);
+      readmeContent = budget.fit("README.md", readme.toString(), "head", 0.5);
     } catch {}
+    budget.reportTrimmed();
 
-    const contextPrompt = `I'm working on a project with the following information:\n\n## Project Information\n${projectInfo}\n\n## Key Files in Project (showing up to 30 files)\n${fileList}\n\n${readmeContent ? `## README Content (first 2000 characters)\n${readmeContent}` : ""}\n\n## Question\n${question}`;
+    const contextPrompt = `I'm working on a project with the following information:\n\n## Project Information\n${projectInfo}\n\n## Key Files in Project (showing up to 30 files)\n${fileList}\n\n${readmeContent ? `## README Content\n${readmeContent}` : ""}\n\n## Question\n${question}`;
 
     await vscode.window.withProgress(
       {
@@ -701,7 +815,7 @@ async function askWithWorkspaceContext(context: vscode.ExtensionContext) {
         cancellable: false,
       },
       async (_progress) => {
-        const response = await queryPerplexityAPI(apiKey, contextPrompt);
+        const response = await queryPerplexityAPI(contextPrompt);
         showResponseInNewDocument(response, `Workspace Analysis: ${question}`);
       }
     );
@@ -711,120 +825,45 @@ async function askWithWorkspaceContext(context: vscode.ExtensionContext) {
 }
 
 async function queryPerplexityAPIStream(
-  apiKey: string,
   prompt: string,
   onChunk: (chunk: string) => void,
-  onComplete?: () => void
+  onComplete?: (completion: PerplexityCompletion) => void
 ): Promise<void> {
-  const config = vscode.workspace.getConfiguration("perplexityAI");
-  const model = config.get("model", "sonar");
-  const maxTokens = config.get("maxTokens", 2000);
-
   try {
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        contentType: "application/json",
-      },
-      body: JSON.stringify({
-        model,
-        messages: [{ role: "user", content: prompt }],
-        maxTokens: maxTokens,
-        temperature: 0.2,
-        stream: true,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `API request failed: ${response.status} ${response.statusText}\nDetails: ${errorText}`
-      );
-    }
-
-    if (!response.body) {
-      throw new Error("Response body is null");
-    }
-
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          onComplete?.();
-          break;
-        }
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split("\n");
-
-        for (const line of lines) {
-          if (line.startsWith("data: ") && !line.includes("[DONE]")) {
-            try {
-              const jsonStr = line.slice(6);
-              if (jsonStr.trim()) {
-                const data = JSON.parse(jsonStr);
-                const content = data.choices?.[0]?.delta?.content;
-                if (content) {
-                  onChunk(content);
-                }
-              }
-            } catch {
-              // Ignore JSON parsing errors for incomplete chunks
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
+    const completion = await perplexityClient.stream(
+      [{ role: "user", content: prompt }],
+      {},
+      onChunk
+    );
+    onComplete?.(completion);
   } catch (error) {
     throw new Error(`Failed to stream from Perplexity API: ${error}`);
   }
 }
 
 async function queryPerplexityAPI(
-  apiKey: string,
   prompt: string
-): Promise<string> {
-  const config = vscode.workspace.getConfiguration("perplexityAI");
-  const model = config.get("model", "sonar");
-  const maxTokens = config.get("maxTokens", 2000);
-
+): Promise<PerplexityCompletion> {
   try {
-    const response = await fetch("https://api.perplexity.ai/chat/completions", {
-      method: "POST",
-      headers: {
-        authorization: `Bearer ${apiKey}`,
-        "content-type": "application/json",
-      },
-      body: JSON.stringify({
-        model,
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: maxTokens,
-        temperature: 0.2,
-        stream: false,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(errorBody);
-    }
-
-    const data = (await response.json()) as PerplexityResponse;
-    return data.choices[0]?.message?.content || "No response received";
+    const completion = await perplexityClient.complete([
+      { role: "user", content: prompt },
+    ]);
+    return {
+      ...completion,
+      content: completion.content || "No response received",
+    };
   } catch (error) {
     throw new Error(`Failed to query Perplexity API - ${error}`);
   }
 }
 
-async function showResponseInNewDocument(content: string, title: string) {
+async function showResponseInNewDocument(
+  response: PerplexityCompletion,
+  title: string
+) {
+  const sources = formatSourcesMarkdown(getCompletionSources(response));
   const doc = await vscode.workspace.openTextDocument({
-    content: `# ${title}\n\n${content}`,
+    content: `# ${title}\n\n${response.content}${sources ? `\n\n${sources}` : ""}`,
     language: "markdown",
   });
 
@@ -833,12 +872,4 @@ async function showResponseInNewDocument(content: string, title: string) {
   });
 }
 
-interface PerplexityResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-}
-
 export function deactivate() {}
@@ -0,0 +1,149 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { API, GitExtension, Repository } from "./git";
+
+const MAX_SUBMODULE_COMMITS = 20;
+
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitError";
+  }
+}
+
+/** The built-in Git extension's API, once it has found the repositories. */
+export async function getGitApi(): Promise<API> {
+  const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+  if (!extension) {
+    throw new GitError("Git extension not found");
+  }
+  const gitExtension = extension.isActive
+    ? extension.exports
+    : await extension.activate();
+  if (!gitExtension.enabled) {
+    throw new GitError("Git is disabled (git.enabled)");
+  }
+
+  const api = gitExtension.getAPI(1);
+  if (api.state === "uninitialized") {
+    await new Promise<void>((resolve) => {
+      const listener = api.onDidChangeState(() => {
+        listener.dispose();
+        resolve();
+      });
+    });
+  }
+  return api;
+}
+
+function parentRepository(
+  api: API,
+  repository: Repository
+): Repository | undefined {
+  return api.repositories.find((candidate) =>
+    candidate.state.submodules.some(
+      (submodule) =>
+        vscode.Uri.joinPath(candidate.rootUri, submodule.path).toString() ===
+        repository.rootUri.toString()
+    )
+  );
+}
+
+/** Short name for messages, e.g. `api` or `lib (submodule of app)`. */
+export function describeRepository(api: API, repository: Repository): string {
+  const name = path.basename(repository.rootUri.fsPath);
+  const parent = parentRepository(api, repository);
+  return parent
+    ? `${name} (submodule of ${path.basename(parent.rootUri.fsPath)})`
+    : name;
+}
+
+/**
+ * Finds the repository a command applies to: the one it was invoked on from
+ * the Source Control view or explorer, then the active editor's (the
+ * innermost, so files in submodules map to the submodule), then the only
+ * repository, and otherwise asks.
+ */
+export async function resolveRepository(
+  api: API,
+  source?: unknown
+): Promise<Repository | undefined> {
+  const sourceUri =
+    source instanceof vscode.Uri
+      ? source
+      : (source as { rootUri?: unknown } | undefined)?.rootUri;
+  if (sourceUri instanceof vscode.Uri) {
+    const repository = api.getRepository(sourceUri);
+    if (repository) {
+      return repository;
+    }
+  }
+
+  const editorUri = vscode.window.activeTextEditor?.document.uri;
+  const fromEditor = editorUri && api.getRepository(editorUri);
+  if (fromEditor) {
+    return fromEditor;
+  }
+
+  if (api.repositories.length === 0) {
+    throw new GitError("No Git repository found");
+  }
+  if (api.repositories.length === 1) {
+    return api.repositories[0];
+  }
+
+  // Prefer the repository selected in the Source Control view
+  const repositories = [...api.repositories].sort(
+    (a, b) => Number(b.ui.selected) - Number(a.ui.selected)
+  );
+  const picked = await vscode.window.showQuickPick(
+    repositories.map((repository) => ({
+      label: describeRepository(api, repository),
+      description: vscode.workspace.asRelativePath(repository.rootUri),
+      detail: repository.state.HEAD?.name,
+      repository,
+    })),
+    { placeHolder: "Select a repository" }
+  );
+  return picked?.repository;
+}
+
+/**
+ * Lists the commits behind submodule pointer changes in `diff`, which git
+ * only shows as `Subproject commit` lines.
+ */
+export async function describeSubmoduleChanges(
+  api: API,
+  repository: Repository,
+  diff: string
+): Promise<string> {
+  const pattern =
+    /^diff --git a\/(\S+) b\/\S+\n(?:(?!diff --git).*\n)*?-Subproject commit ([0-9a-f]+)\n\+Subproject commit ([0-9a-f]+)/gm;
+  const sections: string[] = [];
+  for (const [, submodulePath, from, to] of diff.matchAll(pattern)) {
+    const submoduleUri = vscode.Uri.joinPath(repository.rootUri, submodulePath);
+    const submodule = api.getRepository(submoduleUri);
+    if (
+      !submodule ||
+      submodule.rootUri.toString() !== submoduleUri.toString()
+    ) {
+      continue;
+    }
+    try {
+      const commits = await submodule.log({
+        range: `${from}..${to}`,
+        maxEntries: MAX_SUBMODULE_COMMITS,
+      });
+      if (commits.length > 0) {
+        sections.push(
+          `Submodule ${submodulePath} (${from.slice(0, 7)}..${to.slice(0, 7)}):\n${commits
+            .map((commit) => `- ${commit.message.split("\n", 1)[0]}`)
+            .join("\n")}`
+        );
+      }
+    } catch {
+      // The old commit may not be fetched in the submodule
+    }
+  }
+  return sections.join("\n\n");
+}
@@ -0,0 +1,431 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { Commit, Repository } from "./git";
+import { getGitApi } from "./gitRepositories";
+import { PerplexityClient } from "./perplexityClient";
+import { TokenBudget } from "./tokenBudget";
+
+const HISTORY_MAX_TOKENS = 1500;
+const MAX_HISTORY_COMMITS = 8;
+const MAX_FILE_LOG_ENTRIES = 30;
+
+const HISTORY_INSTRUCTIONS = `Explain how and why the selected code came to look the way it does, using the git history below: which commit introduced it, how later commits changed it, and the reasons given in their messages. Go in chronological order and refer to each commit by its short hash in backticks, e.g. \`1a2b3c4\`. Say so when the history does not explain a change rather than guessing. Reply in Markdown.`;
+
+const UNCOMMITTED = /^0+$/;
+
+interface BlameLine {
+  hash: string;
+  /** Repository-relative path of the line when the commit was made. */
+  path?: string;
+}
+
+interface HistoryCommit {
+  commit: Commit;
+  /** Repository-relative path of the file in this commit. */
+  path: string;
+  lines: number;
+}
+
+interface HistoryDocument {
+  content: string;
+  repository: Repository;
+  commits: Map<string, HistoryCommit>;
+}
+
+/** Parses `git blame` output into one entry per line of the file. */
+export function parseBlame(text: string): BlameLine[] {
+  return text
+    .split("\n")
+    .filter((line) => line !== "")
+    .map((line) => {
+      const match = line.match(/^\^?([0-9a-f]{7,40}) (?:([^(]+?) +)?\(/);
+      return match ? { hash: match[1], path: match[2] } : { hash: "" };
+    });
+}
+
+/** Short hash used in prompts and links; long enough to be unambiguous. */
+function shortHash(hash: string): string {
+  return hash.slice(0, 7);
+}
+
+/** Keeps the hunks of a commit diff that touch the given lines of code. */
+function relevantHunks(diff: string, code: string[]): string {
+  const [header, ...hunks] = diff.split(/^(?=@@ )/m);
+  const wanted = new Set(code.map((line) => line.trim()).filter(Boolean));
+  const matching = hunks.filter((hunk) =>
+    hunk
+      .split("\n")
+      .some(
+        (line) =>
+          (line.startsWith("+") || line.startsWith("-")) &&
+          wanted.has(line.slice(1).trim())
+      )
+  );
+  return header + (matching.length > 0 ? matching : hunks).join("");
+}
+
+/**
+ * Explains the history of the selected lines from `git blame` and the
+ * commits it points at. The explanation opens as a read-only Markdown
+ * document whose commit hashes open that commit's change in the diff editor.
+ */
+export class LineHistoryExplainer
+  implements
+    vscode.TextDocumentContentProvider,
+    vscode.DocumentLinkProvider,
+    vscode.Disposable
+{
+  public static readonly scheme = "perplexity-history";
+  public static readonly openCommitCommand = "perplexity-ai.openHistoryCommit";
+
+  private readonly documents = new Map<string, HistoryDocument>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private nextId = 1;
+
+  constructor(private readonly client: PerplexityClient) {
+    this.disposables.push(
+      vscode.workspace.registerTextDocumentContentProvider(
+        LineHistoryExplainer.scheme,
+        this
+      ),
+      vscode.languages.registerDocumentLinkProvider(
+        { scheme: LineHistoryExplainer.scheme },
+        this
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        if (document.uri.scheme === LineHistoryExplainer.scheme) {
+          this.documents.delete(document.uri.toString());
+        }
+      })
+    );
+  }
+
+  async explainSelection() {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      return;
+    }
+    const document = editor.document;
+    if (document.uri.scheme !== "file") {
+      vscode.window.showErrorMessage("Open a file in a Git repository first");
+      return;
+    }
+    if (document.isDirty) {
+      vscode.window.showErrorMessage(
+        "Save the file first so its history matches the editor"
+      );
+      return;
+    }
+
+    try {
+      const api = await getGitApi();
+      const repository = api.getRepository(document.uri);
+      if (!repository) {
+        vscode.window.showErrorMessage("This file is not in a Git repository");
+        return;
+      }
+
+      const { start, end } = editor.selection;
+      const lastLine =
+        end.line > start.line && end.character === 0 ? end.line - 1 : end.line;
+      const range = new vscode.Range(
+        start.line,
+        0,
+        lastLine,
+        document.lineAt(lastLine).text.length
+      );
+
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Explaining history...",
+          cancellable: false,
+        },
+        async (progress) => {
+          const apiKey = await this.client.getApiKey();
+          if (!apiKey) {
+            vscode.window.showErrorMessage("API key not configured");
+            return;
+          }
+
+          progress.report({ message: "Running blame..." });
+          const filePath = path
+            .relative(repository.rootUri.fsPath, document.uri.fsPath)
+            .split(path.sep)
+            .join("/");
+          const blame = parseBlame(await repository.blame(filePath)).slice(
+            range.start.line,
+            range.end.line + 1
+          );
+          const uncommitted = blame.filter((line) =>
+            UNCOMMITTED.test(line.hash)
+          ).length;
+          const commits = await this.collectCommits(
+            repository,
+            filePath,
+            blame
+          );
+          if (commits.length === 0) {
+            vscode.window.showInformationMessage(
+              "The selected lines have not been committed yet"
+            );
+            return;
+          }
+
+          progress.report({ message: "Reading commits..." });
+          const prompt = await this.buildPrompt(
+            repository,
+            document,
+            range,
+            filePath,
+            commits,
+            uncommitted
+          );
+
+          progress.report({ message: "Writing explanation..." });
+          const completion = await this.client.complete(
+            [
+              { role: "system", content: HISTORY_INSTRUCTIONS },
+              { role: "user", content: prompt },
+            ],
+            { maxTokens: HISTORY_MAX_TOKENS }
+          );
+          const explanation = completion.content
+            .replace(/<think>[\s\S]*?<\/think>/g, "")
+            .trim();
+
+          const lines =
+            range.start.line === range.end.line
+              ? `line ${range.start.line + 1}`
+              : `lines ${range.start.line + 1}-${range.end.line + 1}`;
+          const commitList = commits
+            .map(
+              ({ commit }) =>
+                `- \`${shortHash(commit.hash)}\` ${commit.message.split("\n", 1)[0]} (${commit.authorName ?? "unknown"}, ${commit.authorDate?.toISOString().slice(0, 10) ?? "unknown date"})`
+            )
+            .join("\n");
+          await this.show(
+            `# History of ${filePath}, ${lines}\n\n${explanation}\n\n## Commits\n\n${commitList}\n`,
+            `${path.basename(filePath)} ${lines}`,
+            repository,
+            commits
+          );
+        }
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Error explaining history: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /** Opens the diff of a commit linked from a history document. */
+  async openCommit(documentUri: string, hash: string) {
+    const entry = this.documents.get(documentUri)?.commits.get(hash);
+    const repository = this.documents.get(documentUri)?.repository;
+    if (!entry || !repository) {
+      vscode.window.showErrorMessage(
+        `Commit ${hash} is no longer available; explain the history again`
+      );
+      return;
+    }
+
+    const api = await getGitApi();
+    const uri = vscode.Uri.joinPath(repository.rootUri, entry.path);
+    const { commit } = entry;
+    const title = `${path.basename(entry.path)} (${shortHash(commit.hash)}) ${commit.message.split("\n", 1)[0]}`;
+    if (commit.parents.length === 0) {
+      await vscode.commands.executeCommand(
+        "vscode.open",
+        api.toGitUri(uri, commit.hash)
+      );
+      return;
+    }
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      api.toGitUri(uri, commit.parents[0]),
+      api.toGitUri(uri, commit.hash),
+      title
+    );
+  }
+
+  public provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.documents.get(uri.toString())?.content ?? "";
+  }
+
+  public provideDocumentLinks(
+    document: vscode.TextDocument
+  ): vscode.DocumentLink[] {
+    const entry = this.documents.get(document.uri.toString());
+    if (!entry) {
+      return [];
+    }
+
+    const links: vscode.DocumentLink[] = [];
+    const text = document.getText();
+    for (const match of text.matchAll(/\b[0-9a-f]{7,40}\b/g)) {
+      const hash = shortHash(match[0]);
+      if (!entry.commits.has(hash)) {
+        continue;
+      }
+      const args = encodeURIComponent(
+        JSON.stringify([document.uri.toString(), hash])
+      );
+      const link = new vscode.DocumentLink(
+        new vscode.Range(
+          document.positionAt(match.index),
+          document.positionAt(match.index + match[0].length)
+        ),
+        vscode.Uri.parse(
+          `command:${LineHistoryExplainer.openCommitCommand}?${args}`
+        )
+      );
+      link.tooltip = "Open commit diff";
+      links.push(link);
+    }
+    return links;
+  }
+
+  /**
+   * The commits blamed for the selected lines, most lines first, oldest
+   * first in the result so the prompt reads chronologically.
+   */
+  private async collectCommits(
+    repository: Repository,
+    filePath: string,
+    blame: BlameLine[]
+  ): Promise<HistoryCommit[]> {
+    const counts = new Map<string, { path: string; lines: number }>();
+    for (const line of blame) {
+      if (!line.hash || UNCOMMITTED.test(line.hash)) {
+        continue;
+      }
+      const entry = counts.get(line.hash);
+      counts.set(line.hash, {
+        path: entry?.path ?? line.path ?? filePath,
+        lines: (entry?.lines ?? 0) + 1,
+      });
+    }
+
+    const selected = [...counts.entries()]
+      .sort((a, b) => b[1].lines - a[1].lines)
+      .slice(0, MAX_HISTORY_COMMITS);
+    const commits = await Promise.all(
+      selected.map(async ([hash, { path: commitPath, lines }]) => ({
+        commit: await repository.getCommit(hash),
+        path: commitPath,
+        lines,
+      }))
+    );
+    return commits.sort(
+      (a, b) =>
+        (a.commit.commitDate?.getTime() ?? 0) -
+        (b.commit.commitDate?.getTime() ?? 0)
+    );
+  }
+
+  private async buildPrompt(
+    repository: Repository,
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    filePath: string,
+    commits: HistoryCommit[],
+    uncommitted: number
+  ): Promise<string> {
+    const budget = TokenBudget.forModel(undefined, HISTORY_MAX_TOKENS);
+    const code = document.getText(range).split("\n");
+    const numbered = code
+      .map(
+        (line, i) => `${String(range.start.line + i + 1).padStart(5)} ${line}`
+      )
+      .join("\n");
+
+    const fileLog = await repository.log({
+      path: filePath,
+      maxEntries: MAX_FILE_LOG_ENTRIES,
+    });
+    const blamed = new Set(commits.map(({ commit }) => commit.hash));
+    const logList = fileLog
+      .map(
+        (commit) =>
+          `- ${shortHash(commit.hash)}${blamed.has(commit.hash) ? " *" : ""} ${commit.authorDate?.toISOString().slice(0, 10) ?? ""} ${commit.message.split("\n", 1)[0]}`
+      )
+      .join("\n");
+
+    const header = `File: ${filePath}
+Selected lines:
+\`\`\`${document.languageId}
+${numbered}
+\`\`\`
+${uncommitted > 0 ? `\n${uncommitted} of the selected lines have uncommitted changes.\n` : ""}
+Recent commits to this file, newest first (* = last changed some of the selected lines):
+${logList}`;
+    budget.reserve(header);
+
+    const diffs = await Promise.all(
+      commits.map(async ({ commit, path: commitPath }) => {
+        const diff =
+          commit.parents.length > 0
+            ? relevantHunks(
+                await repository.diffBetween(
+                  commit.parents[0],
+                  commit.hash,
+                  commitPath
+                ),
+                code
+              )
+            : `(initial commit; ${commitPath} was added with this content)\n${await repository.show(commit.hash, commitPath)}`;
+        return {
+          label: `diff of ${shortHash(commit.hash)}`,
+          text: diff,
+          strategy: "middle" as const,
+        };
+      })
+    );
+    const fitted = budget.fitAll(diffs);
+    budget.reportTrimmed();
+
+    const sections = commits.map(
+      (
+        { commit, lines },
+        i
+      ) => `### ${shortHash(commit.hash)} (last change to ${lines} selected line${lines === 1 ? "" : "s"})
+Author: ${commit.authorName ?? "unknown"}, ${commit.authorDate?.toISOString() ?? "unknown date"}
+
+${commit.message.trim()}
+
+\`\`\`diff
+${fitted[i]}
+\`\`\``
+    );
+    return `${header}\n\nCommits that last changed the selected lines, oldest first:\n\n${sections.join("\n\n")}`;
+  }
+
+  private async show(
+    content: string,
+    title: string,
+    repository: Repository,
+    commits: HistoryCommit[]
+  ) {
+    const uri = vscode.Uri.from({
+      scheme: LineHistoryExplainer.scheme,
+      path: `/${this.nextId++}/History of ${title}.md`,
+    });
+    this.documents.set(uri.toString(), {
+      content,
+      repository,
+      commits: new Map(
+        commits.map((entry) => [shortHash(entry.commit.hash), entry])
+      ),
+    });
+    const doc = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(doc, {
+      viewColumn: vscode.ViewColumn.Beside,
+    });
+  }
+
+  public dispose() {
+    this.documents.clear();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
@@ -0,0 +1,322 @@
+import * as vscode from "vscode";
+
+export const PERPLEXITY_API_URL = "https://api.perplexity.ai/chat/completions";
+export const API_KEY_SECRET = "perplexity-api-key";
+
+export type PerplexityRole = "system" | "user" | "assistant";
+
+export interface PerplexityMessage {
+  role: PerplexityRole;
+  content: string;
+}
+
+export interface PerplexitySearchOptions {
+  domainFilter?: string[];
+  recencyFilter?: "hour" | "day" | "week" | "month" | "year";
+  contextSize?: "low" | "medium" | "high";
+  returnImages?: boolean;
+  returnRelatedQuestions?: boolean;
+  disableSearch?: boolean;
+}
+
+export interface PerplexityRequestOptions {
+  /** Overrides `perplexityAI.model`. */
+  model?: string;
+  /** Overrides `perplexityAI.maxTokens`. */
+  maxTokens?: number;
+  /** Overrides `perplexityAI.temperature`. */
+  temperature?: number;
+  search?: PerplexitySearchOptions;
+  signal?: AbortSignal;
+}
+
+export interface PerplexityUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface PerplexitySearchResult {
+  title: string;
+  url: string;
+  date?: string;
+}
+
+export interface PerplexityCompletion {
+  content: string;
+  model: string;
+  citations: string[];
+  searchResults: PerplexitySearchResult[];
+  usage?: PerplexityUsage;
+  finishReason?: string;
+}
+
+/**
+ * Sources in the order the model cites them, so `[1]` maps to the first
+ * entry. Bare citation URLs are enriched with titles from `search_results`.
+ */
+export function getCompletionSources(
+  completion: Pick<PerplexityCompletion, "citations" | "searchResults">
+): PerplexitySearchResult[] {
+  if (completion.citations.length === 0) {
+    return completion.searchResults;
+  }
+  return completion.citations.map(
+    (url) =>
+      completion.searchResults.find((result) => result.url === url) ?? {
+        title: url,
+        url,
+      }
+  );
+}
+
+export function formatSourcesMarkdown(
+  sources: PerplexitySearchResult[],
+  heading = "## Sources"
+): string {
+  if (sources.length === 0) {
+    return "";
+  }
+  const lines = sources.map(
+    (source, index) =>
+      `${index + 1}. [${source.title.replace(/[[\]]/g, "")}](${source.url})${source.date ? ` (${source.date})` : ""}`
+  );
+  return `${heading}\n\n${lines.join("\n")}\n`;
+}
+
+interface ResolvedRequestConfig {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+/* eslint-disable @typescript-eslint/naming-convention */
+interface ApiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ApiResponse {
+  model?: string;
+  citations?: string[];
+  search_results?: Array<{ title?: string; url?: string; date?: string }>;
+  usage?: ApiUsage;
+  choices?: Array<{
+    message?: { content?: string };
+    delta?: { content?: string };
+    finish_reason?: string | null;
+  }>;
+}
+/* eslint-enable @typescript-eslint/naming-convention */
+
+export class PerplexityApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "PerplexityApiError";
+  }
+}
+
+/**
+ * Single entry point for every request the extension makes to the
+ * Perplexity chat completions endpoint.
+ */
+export class PerplexityClient {
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  public async getApiKey(): Promise<string | undefined> {
+    return await this.context.secrets.get(API_KEY_SECRET);
+  }
+
+  public resolveConfig(
+    options: PerplexityRequestOptions = {}
+  ): ResolvedRequestConfig {
+    const config = vscode.workspace.getConfiguration("perplexityAI");
+    return {
+      model: options.model ?? config.get("model", "sonar"),
+      maxTokens: options.maxTokens ?? config.get("maxTokens", 2000),
+      temperature: options.temperature ?? config.get("temperature", 0.2),
+    };
+  }
+
+  public async complete(
+    messages: PerplexityMessage[],
+    options: PerplexityRequestOptions = {}
+  ): Promise<PerplexityCompletion> {
+    const response = await this.post(messages, options, false);
+    const data = (await response.json()) as ApiResponse;
+    const completion = this.toCompletion(data, options);
+    completion.content = data.choices?.[0]?.message?.content ?? "";
+    return completion;
+  }
+
+  /**
+   * Streams a completion, calling `onDelta` for every content fragment as it
+   * arrives. Resolves with the accumulated completion once the stream ends.
+   */
+  public async stream(
+    messages: PerplexityMessage[],
+    options: PerplexityRequestOptions,
+    onDelta: (delta: string) => void
+  ): Promise<PerplexityCompletion> {
+    const response = await this.post(messages, options, true);
+    if (!response.body) {
+      throw new PerplexityApiError("Response body is null");
+    }
+
+    const completion = this.toCompletion({}, options);
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const handleLine = (line: string) => {
+      if (!line.startsWith("data:")) {
+        return;
+      }
+      const payload = line.slice(5).trim();
+      if (!payload || payload === "[DONE]") {
+        return;
+      }
+      let data: ApiResponse;
+      try {
+        data = JSON.parse(payload) as ApiResponse;
+      } catch {
+        return;
+      }
+      const latest = this.toCompletion(data, options);
+      completion.model = latest.model;
+      completion.citations =
+        latest.citations.length > 0 ? latest.citations : completion.citations;
+      completion.searchResults =
+        latest.searchResults.length > 0
+          ? latest.searchResults
+          : completion.searchResults;
+      completion.usage = latest.usage ?? completion.usage;
+      completion.finishReason = latest.finishReason ?? completion.finishReason;
+
+      const delta = data.choices?.[0]?.delta?.content;
+      if (delta) {
+        completion.content += delta;
+        onDelta(delta);
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.forEach((line) => handleLine(line.trim()));
+      }
+      handleLine(buffer.trim());
+    } finally {
+      reader.releaseLock();
+    }
+
+    return completion;
+  }
+
+  private async post(
+    messages: PerplexityMessage[],
+    options: PerplexityRequestOptions,
+    stream: boolean
+  ): Promise<Response> {
+    const apiKey = await this.getApiKey();
+    if (!apiKey) {
+      throw new PerplexityApiError("API key not configured");
+    }
+
+    const response = await fetch(PERPLEXITY_API_URL, {
+      method: "POST",
+      headers: {
+        authorization: `Bearer ${apiKey}`,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        "content-type": "application/json",
+      },
+      body: JSON.stringify(this.buildBody(messages, options, stream)),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new PerplexityApiError(
+        `API request failed: ${response.status} ${response.statusText}${details ? `\nDetails: ${details}` : ""}`,
+        response.status
+      );
+    }
+    return response;
+  }
+
+  private buildBody(
+    messages: PerplexityMessage[],
+    options: PerplexityRequestOptions,
+    stream: boolean
+  ): Record<string, unknown> {
+    const { model, maxTokens, temperature } = this.resolveConfig(options);
+    const search = options.search ?? {};
+
+    /* eslint-disable @typescript-eslint/naming-convention */
+    const body: Record<string, unknown> = {
+      model,
+      messages,
+      max_tokens: maxTokens,
+      temperature,
+      stream,
+    };
+    if (search.domainFilter?.length) {
+      body.search_domain_filter = search.domainFilter;
+    }
+    if (search.recencyFilter) {
+      body.search_recency_filter = search.recencyFilter;
+    }
+    if (search.contextSize) {
+      body.web_search_options = { search_context_size: search.contextSize };
+    }
+    if (search.returnImages !== undefined) {
+      body.return_images = search.returnImages;
+    }
+    if (search.returnRelatedQuestions !== undefined) {
+      body.return_related_questions = search.returnRelatedQuestions;
+    }
+    if (search.disableSearch !== undefined) {
+      body.disable_search = search.disableSearch;
+    }
+    /* eslint-enable @typescript-eslint/naming-convention */
+
+    return body;
+  }
+
+  private toCompletion(
+    data: ApiResponse,
+    options: PerplexityRequestOptions
+  ): PerplexityCompletion {
+    const choice = data.choices?.[0];
+    return {
+      content: "",
+      model: data.model ?? this.resolveConfig(options).model,
+      citations: data.citations ?? [],
+      searchResults: (data.search_results ?? [])
+        .filter((result) => Boolean(result.url))
+        .map((result) => ({
+          title: result.title || result.url!,
+          url: result.url!,
+          date: result.date,
+        })),
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens ?? 0,
+            completionTokens: data.usage.completion_tokens ?? 0,
+            totalTokens: data.usage.total_tokens ?? 0,
+          }
+        : undefined,
+      finishReason: choice?.finish_reason ?? undefined,
+    };
+  }
+}
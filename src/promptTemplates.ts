@@ -0,0 +1,371 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { TokenBudget } from "./tokenBudget";
+
+export interface PromptTemplate {
+  /** Built-in ids match the command they back, e.g. `explainCode`. */
+  id: string;
+  /** Title of the progress notification and the result document. */
+  title: string;
+  description?: string;
+  /** Template text with `{{variable}}` placeholders. */
+  body: string;
+  /** Offer the template as a code action of this kind on selections. */
+  codeAction?: "quickfix" | "refactor";
+  /** Code action label; defaults to "<title> with Perplexity AI". */
+  actionTitle?: string;
+  /**
+   * `findings` asks for structured review findings, shown as diagnostics on
+   * the selection instead of a Markdown document.
+   */
+  output?: "markdown" | "findings";
+  /** Extra variables asked for before running, mapped to their prompt. */
+  inputs: Record<string, string>;
+  source: "builtin" | "workspace";
+  uri?: vscode.Uri;
+}
+
+/** Workspace folder holding `*.md` prompt templates. */
+export const PROMPT_TEMPLATES_DIR = ".perplexity/prompts";
+
+const fenced = "\n\n```{{language}}\n{{selection}}\n```";
+
+function builtin(
+  template: Omit<PromptTemplate, "source" | "inputs"> &
+    Partial<Pick<PromptTemplate, "inputs">>
+): PromptTemplate {
+  return { inputs: {}, ...template, source: "builtin" };
+}
+
+export const BUILTIN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  builtin({
+    id: "explainCode",
+    title: "Code Explanation",
+    body: `Explain this code in detail, including what it does, how it works, and any important concepts:${fenced}`,
+    codeAction: "quickfix",
+    actionTitle: "Explain with Perplexity AI",
+  }),
+  builtin({
+    id: "optimizeCode",
+    title: "Code Optimization",
+    body: `Optimize this code for better performance and readability. Provide the optimized version with explanations:${fenced}`,
+    codeAction: "refactor",
+    actionTitle: "Optimize with Perplexity AI",
+  }),
+  builtin({
+    id: "findBugs",
+    title: "Bug Analysis",
+    body: `Analyze this code for potential bugs, security issues, and code smells. Explain each problem and suggest a fix:${fenced}`,
+    codeAction: "quickfix",
+    actionTitle: "Find Bugs with Perplexity AI",
+    output: "findings",
+  }),
+  builtin({
+    id: "generateComments",
+    title: "Code Documentation",
+    body: `Add comprehensive comments and documentation to this code. Include function descriptions, parameter explanations, and inline comments:${fenced}`,
+  }),
+  builtin({
+    id: "refactorCode",
+    title: "Code Refactoring",
+    body: `Refactor this code following best practices. Improve code structure, naming conventions, and maintainability:${fenced}`,
+  }),
+  builtin({
+    id: "generateTests",
+    title: "Test Generation",
+    body: `Generate comprehensive unit tests for this code. Use appropriate testing framework for the language:${fenced}`,
+    codeAction: "refactor",
+    actionTitle: "Generate Tests with Perplexity AI",
+  }),
+  builtin({
+    id: "convertCode",
+    title: "Code Conversion",
+    body: `Convert this {{language}} code to {{targetLanguage}}. Maintain functionality and add comments explaining the conversion:${fenced}`,
+    inputs: { targetLanguage: "Target programming language" },
+  }),
+  builtin({
+    id: "reviewCode",
+    title: "Code Review",
+    body: `Provide a comprehensive code review for this code. Consider:\n1. Code quality\n2. Best practices adherence\n3. Performance\n4. Security\nReport each issue with a suggested improvement:${fenced}`,
+    output: "findings",
+  }),
+];
+
+/**
+ * Command that runs a template: the contributed command for built-in ids
+ * (even when overridden), a dynamically registered one otherwise.
+ */
+export function getTemplateCommandId(template: PromptTemplate): string {
+  return BUILTIN_PROMPT_TEMPLATES.some((b) => b.id === template.id)
+    ? `perplexity-ai.${template.id}`
+    : `perplexity-ai.prompt.${template.id}`;
+}
+
+type FrontMatterValue = string | boolean | Record<string, string>;
+
+function parseScalar(value: string): string | boolean {
+  const trimmed = value.trim();
+  if (trimmed === "true" || trimmed === "false") {
+    return trimmed === "true";
+  }
+  const quoted = trimmed.match(/^(["'])(.*)\1$/);
+  return quoted ? quoted[2] : trimmed;
+}
+
+/**
+ * Parses the small YAML subset used by template front-matter: `key: value`
+ * pairs and one level of nested `key: value` maps.
+ */
+export function parseFrontMatter(text: string): {
+  data: Record<string, FrontMatterValue>;
+  body: string;
+} {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { data: {}, body: text };
+  }
+
+  const data: Record<string, FrontMatterValue> = {};
+  let parent: Record<string, string> | undefined;
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) {
+      continue;
+    }
+    const entry = line.match(/^(\s*)([\w-]+)\s*:\s*(.*)$/);
+    if (!entry) {
+      throw new Error(`Invalid front-matter line: ${line.trim()}`);
+    }
+    const [, indent, key, value] = entry;
+    if (indent && parent) {
+      parent[key] = String(parseScalar(value));
+    } else if (!value.trim()) {
+      parent = {};
+      data[key] = parent;
+    } else {
+      parent = undefined;
+      data[key] = parseScalar(value);
+    }
+  }
+  return { data, body: text.slice(match[0].length) };
+}
+
+function parseTemplateFile(uri: vscode.Uri, text: string): PromptTemplate {
+  const { data, body } = parseFrontMatter(text);
+  const str = (key: string) =>
+    typeof data[key] === "string" ? (data[key] as string) : undefined;
+  const id = str("id") || path.basename(uri.path, ".md");
+  const codeAction = data.codeAction;
+  if (
+    codeAction !== undefined &&
+    codeAction !== false &&
+    codeAction !== "quickfix" &&
+    codeAction !== "refactor"
+  ) {
+    throw new Error("`codeAction` must be quickfix, refactor or false");
+  }
+  const output = data.output;
+  if (output !== undefined && output !== "markdown" && output !== "findings") {
+    throw new Error("`output` must be markdown or findings");
+  }
+  if (!body.trim()) {
+    throw new Error("template body is empty");
+  }
+  return {
+    id,
+    title: str("title") || id,
+    description: str("description"),
+    body: body.trim(),
+    codeAction: codeAction || undefined,
+    actionTitle: str("actionTitle"),
+    output,
+    inputs:
+      typeof data.inputs === "object"
+        ? (data.inputs as Record<string, string>)
+        : {},
+    source: "workspace",
+    uri,
+  };
+}
+
+/** Writes a template back out in the format `parseTemplateFile` reads. */
+export function serializeTemplate(template: PromptTemplate): string {
+  const lines = [`id: ${template.id}`, `title: ${template.title}`];
+  if (template.description) {
+    lines.push(`description: ${template.description}`);
+  }
+  if (template.codeAction) {
+    lines.push(`codeAction: ${template.codeAction}`);
+  }
+  if (template.actionTitle) {
+    lines.push(`actionTitle: ${template.actionTitle}`);
+  }
+  if (template.output) {
+    lines.push(`output: ${template.output}`);
+  }
+  const inputs = Object.entries(template.inputs);
+  if (inputs.length > 0) {
+    lines.push("inputs:");
+    inputs.forEach(([name, prompt]) => lines.push(`  ${name}: ${prompt}`));
+  }
+  return `---\n${lines.join("\n")}\n---\n\n${template.body}\n`;
+}
+
+function formatDiagnostics(
+  document: vscode.TextDocument,
+  range: vscode.Range
+): string {
+  const diagnostics = vscode.languages
+    .getDiagnostics(document.uri)
+    .filter((diagnostic) => diagnostic.range.intersection(range));
+  if (diagnostics.length === 0) {
+    return "No diagnostics reported.";
+  }
+  return diagnostics
+    .map(
+      (diagnostic) =>
+        `- Line ${diagnostic.range.start.line + 1} [${vscode.DiagnosticSeverity[diagnostic.severity]}]${diagnostic.source ? ` ${diagnostic.source}:` : ""} ${diagnostic.message}`
+    )
+    .join("\n");
+}
+
+/** Prefixes each line with its 1-based line number in the document. */
+function numberLines(text: string, firstLine: number): string {
+  return text
+    .split("\n")
+    .map((line, i) => `${String(firstLine + i + 1).padStart(5)} ${line}`)
+    .join("\n");
+}
+
+/**
+ * Fills in the template variables for the active editor. Returns undefined
+ * when the template cannot run, e.g. without a selection or when an input
+ * prompt is cancelled.
+ */
+export async function renderPromptTemplate(
+  template: PromptTemplate,
+  editor: vscode.TextEditor
+): Promise<string | undefined> {
+  const { document, selection } = editor;
+  const uses = (name: string) => template.body.includes(`{{${name}}}`);
+
+  const selectedText = document.getText(selection);
+  if (uses("selection") && !selectedText) {
+    vscode.window.showWarningMessage("No code selected");
+    return undefined;
+  }
+
+  const values: Record<string, string> = {
+    language: document.languageId,
+    fileName: path.basename(document.fileName),
+    filePath: vscode.workspace.asRelativePath(document.uri),
+  };
+  if (uses("diagnostics")) {
+    values.diagnostics = formatDiagnostics(
+      document,
+      selection.isEmpty
+        ? document.validateRange(new vscode.Range(0, 0, document.lineCount, 0))
+        : selection
+    );
+  }
+  for (const [name, prompt] of Object.entries(template.inputs)) {
+    if (!uses(name)) {
+      continue;
+    }
+    const value = await vscode.window.showInputBox({ prompt });
+    if (!value) {
+      return undefined;
+    }
+    values[name] = value;
+  }
+  if (uses("selection")) {
+    const budget = TokenBudget.forModel();
+    budget.reserve(template.body);
+    Object.values(values).forEach((value) => budget.reserve(value));
+    // Findings refer to lines, so number them as in the document
+    values.selection = budget.fit(
+      "selection",
+      template.output === "findings"
+        ? numberLines(selectedText, selection.start.line)
+        : selectedText,
+      "middle"
+    );
+    budget.reportTrimmed();
+  }
+
+  return template.body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) =>
+    name in values ? values[name] : placeholder
+  );
+}
+
+/** Reports a failed {@link PromptLibrary.load} the way per-file problems are. */
+export function reportPromptLoadFailure(error: unknown) {
+  vscode.window.showWarningMessage(
+    `Could not load prompt templates: ${error instanceof Error ? error.message : error}`
+  );
+}
+
+/**
+ * Built-in templates merged with `.perplexity/prompts/*.md` from every
+ * workspace folder. A workspace template with a built-in id overrides it.
+ */
+export class PromptLibrary implements vscode.Disposable {
+  private templates = new Map<string, PromptTemplate>();
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+  private readonly watcher = vscode.workspace.createFileSystemWatcher(
+    `**/${PROMPT_TEMPLATES_DIR}/*.md`
+  );
+
+  constructor() {
+    BUILTIN_PROMPT_TEMPLATES.forEach((template) =>
+      this.templates.set(template.id, template)
+    );
+    const reload = () => this.load().catch(reportPromptLoadFailure);
+    this.watcher.onDidCreate(reload);
+    this.watcher.onDidChange(reload);
+    this.watcher.onDidDelete(reload);
+  }
+
+  public get(id: string): PromptTemplate | undefined {
+    return this.templates.get(id);
+  }
+
+  public all(): PromptTemplate[] {
+    return [...this.templates.values()];
+  }
+
+  public async load() {
+    const templates = new Map(
+      BUILTIN_PROMPT_TEMPLATES.map((template) => [template.id, template])
+    );
+    const problems: string[] = [];
+    const files = await vscode.workspace.findFiles(
+      `${PROMPT_TEMPLATES_DIR}/*.md`
+    );
+    for (const uri of files) {
+      try {
+        const text = Buffer.from(
+          await vscode.workspace.fs.readFile(uri)
+        ).toString("utf8");
+        const template = parseTemplateFile(uri, text);
+        templates.set(template.id, template);
+      } catch (error) {
+        problems.push(
+          `${vscode.workspace.asRelativePath(uri)}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+    if (problems.length > 0) {
+      vscode.window.showWarningMessage(
+        `Some prompt templates were ignored: ${problems.join("; ")}`
+      );
+    }
+    this.templates = templates;
+    this.onDidChangeEmitter.fire();
+  }
+
+  public dispose() {
+    this.watcher.dispose();
+    this.onDidChangeEmitter.dispose();
+  }
+}
@@ -0,0 +1,287 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { DiffSummarizer } from "./diffSummarizer";
+import { Ref, RefType, Repository } from "./git";
+import {
+  describeSubmoduleChanges,
+  getGitApi,
+  resolveRepository,
+} from "./gitRepositories";
+import { PerplexityClient } from "./perplexityClient";
+
+const PR_MAX_TOKENS = 1500;
+const MAX_PR_COMMITS = 200;
+const MAX_PR_FILES = 300;
+const PARALLEL_FILE_DIFFS = 8;
+
+/** Where GitHub, GitLab and Azure DevOps look for pull request templates. */
+const PR_TEMPLATE_FILES = [
+  ".github/pull_request_template.md",
+  ".github/PULL_REQUEST_TEMPLATE.md",
+  "pull_request_template.md",
+  "PULL_REQUEST_TEMPLATE.md",
+  "docs/pull_request_template.md",
+  "docs/PULL_REQUEST_TEMPLATE.md",
+  ".gitlab/merge_request_templates/Default.md",
+  ".azuredevops/pull_request_template.md",
+];
+const PR_TEMPLATE_DIR = ".github/PULL_REQUEST_TEMPLATE";
+
+const DEFAULT_BASE_BRANCH = /^(?:[\w.-]+\/)?(?:main|master|develop|trunk)$/;
+
+const PR_INSTRUCTIONS = `Draft a pull request for the changes below. Reply in Markdown: the first line is "# " followed by a concise title (at most 72 characters), then the description. Explain what changed and why for a reviewer who has not seen the code, call out anything that needs careful review, and do not invent facts that are not supported by the commits or the diff.`;
+
+const DEFAULT_PR_SECTIONS = `Use these sections:
+## Summary
+## Motivation
+## Testing
+## Risk`;
+
+function refName(ref: Ref): string | undefined {
+  return ref.type === RefType.RemoteHead && ref.remote && ref.name
+    ? ref.name.startsWith(`${ref.remote}/`)
+      ? ref.name
+      : `${ref.remote}/${ref.name}`
+    : ref.name;
+}
+
+/** Path of `uri` relative to the repository, with forward slashes. */
+function repositoryPath(repository: Repository, uri: vscode.Uri): string {
+  return path
+    .relative(repository.rootUri.fsPath, uri.fsPath)
+    .split(path.sep)
+    .join("/");
+}
+
+/**
+ * Drafts a pull request title and description for the current branch from
+ * its commits and its diff against the merge base with a base branch.
+ */
+export class PullRequestAssistant {
+  private readonly summarizer: DiffSummarizer;
+
+  constructor(private readonly client: PerplexityClient) {
+    this.summarizer = new DiffSummarizer(client);
+  }
+
+  async generateDescription(source?: unknown) {
+    try {
+      const api = await getGitApi();
+      const repository = await resolveRepository(api, source);
+      if (!repository) {
+        return;
+      }
+      const branch = repository.state.HEAD?.name;
+      if (!branch) {
+        vscode.window.showErrorMessage(
+          "Check out a branch to draft a pull request"
+        );
+        return;
+      }
+
+      const base = await this.pickBaseBranch(repository, branch);
+      if (!base) {
+        return;
+      }
+      const mergeBase = await repository.getMergeBase(base, "HEAD");
+      if (!mergeBase) {
+        vscode.window.showErrorMessage(
+          `${branch} has no common history with ${base}`
+        );
+        return;
+      }
+
+      const commits = await repository.log({
+        range: `${mergeBase}..HEAD`,
+        maxEntries: MAX_PR_COMMITS,
+      });
+      if (commits.length === 0) {
+        vscode.window.showInformationMessage(
+          `${branch} has no commits that are not in ${base}`
+        );
+        return;
+      }
+
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Drafting pull request for ${branch} → ${base}...`,
+          cancellable: false,
+        },
+        async (progress) => {
+          const apiKey = await this.client.getApiKey();
+          if (!apiKey) {
+            vscode.window.showErrorMessage("API key not configured");
+            return;
+          }
+
+          progress.report({ message: "Collecting changes..." });
+          const diff = await this.getBranchDiff(repository, mergeBase);
+          const template = await this.findTemplate(repository);
+          const commitList = commits
+            .map(
+              (commit) =>
+                `- ${commit.hash.slice(0, 7)} ${commit.message.split("\n", 1)[0]}`
+            )
+            .join("\n");
+          const notes = await describeSubmoduleChanges(api, repository, diff);
+          const instructions = `${PR_INSTRUCTIONS}
+
+${template ? `Fill in this pull request template from the repository, keeping its headings and checklists:\n${template}` : DEFAULT_PR_SECTIONS}
+
+Branch ${branch} into ${base}, ${commits.length} commit(s):
+${commitList}${notes ? `\n\n${notes}` : ""}`;
+
+          const described = await this.summarizer.prepare(
+            diff,
+            instructions,
+            PR_MAX_TOKENS,
+            progress
+          );
+          progress.report({ message: "Writing description..." });
+
+          const completion = await this.client.complete(
+            [{ role: "user", content: `${instructions}\n\n${described}` }],
+            { maxTokens: PR_MAX_TOKENS }
+          );
+          const draft = completion.content
+            .replace(/<think>[\s\S]*?<\/think>/g, "")
+            .replace(/^```(?:markdown|md)?\n([\s\S]*)\n```\s*$/, "$1")
+            .trim();
+
+          const doc = await vscode.workspace.openTextDocument({
+            content: `${draft}\n`,
+            language: "markdown",
+          });
+          await vscode.window.showTextDocument(doc);
+        }
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Error drafting pull request: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /** Local and remote branches, with the usual base branches first. */
+  private async pickBaseBranch(
+    repository: Repository,
+    branch: string
+  ): Promise<string | undefined> {
+    const upstream = repository.state.HEAD?.upstream;
+    const names = [
+      ...new Set(
+        repository.state.refs
+          .filter(
+            (ref) =>
+              ref.type === RefType.Head || ref.type === RefType.RemoteHead
+          )
+          .map(refName)
+          .filter(
+            (name): name is string =>
+              !!name &&
+              name !== branch &&
+              !name.endsWith("/HEAD") &&
+              name !== (upstream && `${upstream.remote}/${upstream.name}`)
+          )
+      ),
+    ].sort(
+      (a, b) =>
+        Number(DEFAULT_BASE_BRANCH.test(b)) -
+          Number(DEFAULT_BASE_BRANCH.test(a)) || a.localeCompare(b)
+    );
+    if (names.length === 0) {
+      vscode.window.showErrorMessage("No other branches to compare with");
+      return undefined;
+    }
+    return vscode.window.showQuickPick(names, {
+      placeHolder: `Base branch to merge ${branch} into`,
+    });
+  }
+
+  /**
+   * The Git API has no whole-range diff, so the changed files are diffed one
+   * by one against the merge base.
+   */
+  private async getBranchDiff(
+    repository: Repository,
+    mergeBase: string
+  ): Promise<string> {
+    const changes = await repository.diffBetween(mergeBase, "HEAD");
+    const paths = changes.map((change) =>
+      repositoryPath(repository, change.uri)
+    );
+    const diffs: string[] = [];
+    for (
+      let i = 0;
+      i < Math.min(paths.length, MAX_PR_FILES);
+      i += PARALLEL_FILE_DIFFS
+    ) {
+      diffs.push(
+        ...(await Promise.all(
+          paths
+            .slice(i, Math.min(i + PARALLEL_FILE_DIFFS, MAX_PR_FILES))
+            .map((filePath) =>
+              repository.diffBetween(mergeBase, "HEAD", filePath)
+            )
+        ))
+      );
+    }
+    const omitted = paths.slice(MAX_PR_FILES);
+    return (
+      diffs.map((diff) => diff.replace(/\n?$/, "\n")).join("") +
+      (omitted.length > 0
+        ? `\n${omitted.length} more changed files not shown: ${omitted.join(", ")}\n`
+        : "")
+    );
+  }
+
+  private async findTemplate(
+    repository: Repository
+  ): Promise<string | undefined> {
+    const read = async (uri: vscode.Uri) => {
+      try {
+        return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString(
+          "utf8"
+        );
+      } catch {
+        return undefined;
+      }
+    };
+
+    for (const file of PR_TEMPLATE_FILES) {
+      const text = await read(vscode.Uri.joinPath(repository.rootUri, file));
+      if (text?.trim()) {
+        return text.trim();
+      }
+    }
+
+    // A directory of templates: let the user choose one
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(
+        vscode.Uri.joinPath(repository.rootUri, PR_TEMPLATE_DIR)
+      );
+    } catch {
+      return undefined;
+    }
+    const templates = entries
+      .filter(
+        ([name, type]) => type === vscode.FileType.File && name.endsWith(".md")
+      )
+      .map(([name]) => name);
+    const picked =
+      templates.length > 1
+        ? await vscode.window.showQuickPick(templates, {
+            placeHolder: "Pull request template",
+          })
+        : templates[0];
+    return picked
+      ? (
+          await read(
+            vscode.Uri.joinPath(repository.rootUri, PR_TEMPLATE_DIR, picked)
+          )
+        )?.trim()
+      : undefined;
+  }
+}
@@ -0,0 +1,370 @@
+import * as vscode from "vscode";
+
+export type FindingSeverity = "error" | "warning" | "info";
+
+/** One issue reported by a structured review. Lines are 1-based. */
+export interface ReviewFinding {
+  /** Repository-relative path; omitted when reviewing a single document. */
+  file?: string;
+  line: number;
+  endLine?: number;
+  severity: FindingSeverity;
+  message: string;
+  /** The exact current text of `line`, used to relocate the finding. */
+  code?: string;
+  /** Replacement for lines `line`..`endLine`. */
+  fix?: string;
+}
+
+/** Reply format appended to review prompts; `parseFindings` reads it. */
+export const REVIEW_FINDINGS_FORMAT = `Reply with exactly one JSON object in a \`\`\`json fenced block and nothing else:
+{"findings": [{"file": "path as given", "line": 12, "endLine": 14, "severity": "error" | "warning" | "info", "message": "what is wrong and why", "code": "exact text of line 12", "fix": "replacement text for lines 12-14 with their indentation, omitted if there is no concrete fix"}]}
+Use the line numbers shown; they are not part of the code, so leave them out of "code" and "fix". Report real problems only (bugs, security issues, broken error handling, misleading names), not style preferences. Use "error" only for defects. Reply {"findings": []} when nothing is wrong.`;
+
+const SEVERITIES: Record<FindingSeverity, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+};
+
+const DECORATION_COLORS: Record<FindingSeverity, string> = {
+  error: "editorError.foreground",
+  warning: "editorWarning.foreground",
+  info: "editorInfo.foreground",
+};
+
+/** Longest message shown inline; the full text is in the hover. */
+const INLINE_MESSAGE_LENGTH = 120;
+
+/** How far from its reported line a finding's `code` is searched for. */
+const RELOCATE_WINDOW = 20;
+
+/** Reads the findings from a reply, dropping malformed entries. */
+export function parseFindings(text: string): ReviewFinding[] {
+  const withoutThinking = text.replace(/<think>[\s\S]*?<\/think>/g, "");
+  const fenced = withoutThinking.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  let json = fenced?.[1];
+  if (!json) {
+    const start = withoutThinking.search(/[[{]/);
+    const end = Math.max(
+      withoutThinking.lastIndexOf("}"),
+      withoutThinking.lastIndexOf("]")
+    );
+    if (start === -1 || end <= start) {
+      throw new Error("Reply does not contain JSON findings");
+    }
+    json = withoutThinking.slice(start, end + 1);
+  }
+
+  const data = JSON.parse(json);
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : (data?.findings ?? []);
+  return entries.flatMap((entry) => {
+    const raw = entry as Partial<ReviewFinding> | null;
+    const line = Number(raw?.line);
+    if (!raw || !Number.isInteger(line) || line < 1 || !raw.message) {
+      return [];
+    }
+    const endLine = Number(raw.endLine);
+    return [
+      {
+        file: typeof raw.file === "string" ? raw.file : undefined,
+        line,
+        endLine:
+          Number.isInteger(endLine) && endLine >= line ? endLine : undefined,
+        severity:
+          raw.severity && raw.severity in SEVERITIES ? raw.severity : "warning",
+        message: String(raw.message),
+        code: typeof raw.code === "string" ? raw.code : undefined,
+        fix: typeof raw.fix === "string" ? raw.fix : undefined,
+      },
+    ];
+  });
+}
+
+/**
+ * 0-based line of `finding` in `document`. `expectedLine` is where it should
+ * be after accounting for edits; when the reported `code` is not there, the
+ * nearest line holding it wins.
+ */
+export function locateFinding(
+  document: vscode.TextDocument,
+  finding: ReviewFinding,
+  expectedLine = finding.line - 1
+): number | undefined {
+  const code = finding.code?.trim();
+  const matches = (line: number) =>
+    line >= 0 &&
+    line < document.lineCount &&
+    (!code || document.lineAt(line).text.trim() === code);
+
+  if (matches(expectedLine)) {
+    return expectedLine;
+  }
+  if (code) {
+    for (let distance = 1; distance <= RELOCATE_WINDOW; distance++) {
+      for (const line of [expectedLine - distance, expectedLine + distance]) {
+        if (matches(line)) {
+          return line;
+        }
+      }
+    }
+  }
+  return expectedLine >= 0 && expectedLine < document.lineCount
+    ? expectedLine
+    : undefined;
+}
+
+interface ReviewEntry {
+  diagnostic: vscode.Diagnostic;
+  severity: FindingSeverity;
+  fix?: {
+    range: vscode.Range;
+    text: string;
+    /** Text the fix was written against; the fix is withdrawn if it changes. */
+    original: string;
+  };
+}
+
+/**
+ * Publishes review findings to the Problems panel and as inline messages at
+ * the end of their first line, and offers each suggested fix as a quick
+ * fix. Findings follow edits above them and disappear when the code they
+ * point at is edited.
+ */
+export class ReviewDiagnostics
+  implements vscode.CodeActionProvider, vscode.Disposable
+{
+  public static readonly source = "Perplexity AI";
+  public static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+  ];
+
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("perplexity-review");
+  private readonly entries = new Map<string, ReviewEntry[]>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly decorationTypes = Object.fromEntries(
+    Object.entries(DECORATION_COLORS).map(([severity, color]) => [
+      severity,
+      vscode.window.createTextEditorDecorationType({
+        after: {
+          color: new vscode.ThemeColor(color),
+          margin: "0 0 0 2em",
+          fontStyle: "italic",
+        },
+        overviewRulerColor: new vscode.ThemeColor(color),
+        overviewRulerLane: vscode.OverviewRulerLane.Right,
+      }),
+    ])
+  ) as Record<FindingSeverity, vscode.TextEditorDecorationType>;
+
+  constructor() {
+    this.disposables.push(
+      this.collection,
+      ...Object.values(this.decorationTypes),
+      vscode.window.onDidChangeVisibleTextEditors((editors) =>
+        editors.forEach((editor) => this.decorate(editor))
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        this.handleDocumentChange(event)
+      ),
+      vscode.languages.registerCodeActionsProvider({ pattern: "**" }, this, {
+        providedCodeActionKinds: ReviewDiagnostics.providedCodeActionKinds,
+      })
+    );
+  }
+
+  /**
+   * Replaces the findings shown for `document` (or only those inside
+   * `within`). Returns how many could be placed.
+   */
+  public set(
+    document: vscode.TextDocument,
+    findings: Array<{ finding: ReviewFinding; line: number }>,
+    within?: vscode.Range
+  ): number {
+    const key = document.uri.toString();
+    const kept = (this.entries.get(key) ?? []).filter(
+      (entry) => within && !within.intersection(entry.diagnostic.range)
+    );
+
+    for (const { finding, line } of findings) {
+      const endLine = Math.min(
+        line + (finding.endLine ?? finding.line) - finding.line,
+        document.lineCount - 1
+      );
+      const linesRange = new vscode.Range(
+        line,
+        0,
+        endLine,
+        document.lineAt(endLine).text.length
+      );
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(
+          line,
+          document.lineAt(line).firstNonWhitespaceCharacterIndex,
+          endLine,
+          document.lineAt(endLine).text.length
+        ),
+        finding.message,
+        SEVERITIES[finding.severity]
+      );
+      diagnostic.source = ReviewDiagnostics.source;
+      kept.push({
+        diagnostic,
+        severity: finding.severity,
+        fix:
+          finding.fix !== undefined
+            ? {
+                range: linesRange,
+                text: finding.fix.replace(/\n$/, ""),
+                original: document.getText(linesRange),
+              }
+            : undefined,
+      });
+    }
+
+    this.update(document.uri, kept);
+    return findings.length;
+  }
+
+  public clear(uri?: vscode.Uri) {
+    if (uri) {
+      this.update(uri, []);
+    } else {
+      this.entries.clear();
+      this.collection.clear();
+      vscode.window.visibleTextEditors.forEach((editor) =>
+        this.decorate(editor)
+      );
+    }
+  }
+
+  /** Unresolved error findings in `uris`. */
+  public countErrors(uris: vscode.Uri[]): number {
+    return uris.reduce(
+      (count, uri) =>
+        count +
+        (this.entries.get(uri.toString()) ?? []).filter(
+          (entry) =>
+            entry.diagnostic.severity === vscode.DiagnosticSeverity.Error
+        ).length,
+      0
+    );
+  }
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const entries = this.entries.get(document.uri.toString()) ?? [];
+    return context.diagnostics
+      .filter((diagnostic) => diagnostic.source === ReviewDiagnostics.source)
+      .flatMap((diagnostic) => {
+        const entry = entries.find(
+          (candidate) =>
+            candidate.diagnostic.message === diagnostic.message &&
+            candidate.diagnostic.range.isEqual(diagnostic.range)
+        );
+        if (
+          !entry?.fix ||
+          document.getText(entry.fix.range) !== entry.fix.original
+        ) {
+          return [];
+        }
+        const action = new vscode.CodeAction(
+          `Apply suggested fix: ${diagnostic.message.split(/(?<=\.)\s/, 1)[0]}`,
+          vscode.CodeActionKind.QuickFix
+        );
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, entry.fix.range, entry.fix.text);
+        return [action];
+      });
+  }
+
+  private update(uri: vscode.Uri, entries: ReviewEntry[]) {
+    if (entries.length > 0) {
+      this.entries.set(uri.toString(), entries);
+    } else {
+      this.entries.delete(uri.toString());
+    }
+    this.collection.set(
+      uri,
+      entries.map((entry) => entry.diagnostic)
+    );
+    vscode.window.visibleTextEditors
+      .filter((editor) => editor.document.uri.toString() === uri.toString())
+      .forEach((editor) => this.decorate(editor));
+  }
+
+  private decorate(editor: vscode.TextEditor) {
+    const entries = this.entries.get(editor.document.uri.toString()) ?? [];
+    for (const [severity, type] of Object.entries(this.decorationTypes)) {
+      editor.setDecorations(
+        type,
+        entries
+          .filter(
+            (entry) =>
+              entry.severity === severity &&
+              entry.diagnostic.range.start.line < editor.document.lineCount
+          )
+          .map(({ diagnostic }) => {
+            const line = editor.document.lineAt(diagnostic.range.start.line);
+            const text = diagnostic.message.replace(/\s+/g, " ");
+            const message =
+              text.length > INLINE_MESSAGE_LENGTH
+                ? `${text.slice(0, INLINE_MESSAGE_LENGTH - 1)}…`
+                : text;
+            return {
+              range: new vscode.Range(line.range.end, line.range.end),
+              hoverMessage: diagnostic.message,
+              renderOptions: { after: { contentText: message } },
+            };
+          })
+      );
+    }
+  }
+
+  private handleDocumentChange(event: vscode.TextDocumentChangeEvent) {
+    const entries = this.entries.get(event.document.uri.toString());
+    if (!entries || event.contentChanges.length === 0) {
+      return;
+    }
+
+    let remaining = entries;
+    for (const change of event.contentChanges) {
+      const delta =
+        change.text.split("\n").length -
+        1 -
+        (change.range.end.line - change.range.start.line);
+      remaining = remaining.flatMap((entry) => {
+        const range = entry.diagnostic.range;
+        if (change.range.end.line < range.start.line) {
+          entry.diagnostic.range = new vscode.Range(
+            range.start.translate(delta),
+            range.end.translate(delta)
+          );
+          if (entry.fix) {
+            entry.fix.range = new vscode.Range(
+              entry.fix.range.start.translate(delta),
+              entry.fix.range.end.translate(delta)
+            );
+          }
+          return [entry];
+        }
+        // Edited code invalidates the finding
+        return change.range.start.line > range.end.line ? [entry] : [];
+      });
+    }
+    this.update(event.document.uri, remaining);
+  }
+
+  public dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
@@ -0,0 +1,56 @@
+import * as vscode from "vscode";
+
+/**
+ * Files that may hold credentials. They never get completions, whatever the
+ * completion policies say, and the workspace agent does not read or search
+ * them.
+ */
+export const SECRET_FILES_PATTERN =
+  "**/{.env,.env.*,*.env,.npmrc,.pypirc,.netrc,*.pem,*.key,*.p12,*.pfx,*.keystore,*.jks,id_rsa*,id_ed25519*,credentials*,secrets.*,*.secret,*.secrets}";
+
+/**
+ * Compiles a glob with `**`, `*`, `?` and `{a,b}` alternatives into an
+ * anchored, case-insensitive regular expression over `/`-separated paths.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // `**/` spans any number of directories, including none
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+      braces++;
+    } else if (char === "}" && braces > 0) {
+      source += ")";
+      braces--;
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+const SECRET_FILES = globToRegExp(SECRET_FILES_PATTERN);
+
+/** Whether `uri`, relative to the workspace, matches the secrets pattern. */
+export function isSecretFile(uri: vscode.Uri): boolean {
+  const relativePath = vscode.workspace
+    .asRelativePath(uri, false)
+    .replace(/\\/g, "/");
+  return SECRET_FILES.test(relativePath);
+}
@@ -1,11 +1,17 @@
 import * as vscode from "vscode";
+import {
+  API_KEY_SECRET,
+  PerplexityApiError,
+  PerplexityClient,
+} from "./perplexityClient";
 
 export class PerplexitySettingsProvider {
   private panel: vscode.WebviewPanel | undefined;
 
   constructor(
     private readonly extensionUri: vscode.Uri,
-    private readonly context: vscode.ExtensionContext
+    private readonly context: vscode.ExtensionContext,
+    private readonly client: PerplexityClient
   ) {}
 
   public show() {
@@ -30,7 +36,7 @@ export class PerplexitySettingsProvider {
     this.panel.webview.onDidReceiveMessage(async (message) => {
       switch (message.type) {
         case "saveApiKey":
-          await this.context.secrets.store("perplexity-api-key", message.value);
+          await this.context.secrets.store(API_KEY_SECRET, message.value);
           vscode.window.showInformationMessage("API Key saved successfully");
           break;
         case "saveSettings":
@@ -58,7 +64,7 @@ export class PerplexitySettingsProvider {
     }
 
     const config = vscode.workspace.getConfiguration("perplexityAI");
-    const apiKey = await this.context.secrets.get("perplexity-api-key");
+    const apiKey = await this.client.getApiKey();
 
     this.panel.webview.postMessage({
       type: "settingsLoaded",
@@ -87,7 +93,7 @@ export class PerplexitySettingsProvider {
     }
 
     try {
-      const apiKey = await this.context.secrets.get("perplexity-api-key");
+      const apiKey = await this.client.getApiKey();
       if (!apiKey) {
         this.panel.webview.postMessage({
           type: "connectionResult",
@@ -97,34 +103,23 @@ export class PerplexitySettingsProvider {
         return;
       }
 
-      const response = await fetch(
-        "https://api.perplexity.ai/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            authorization: `Bearer ${apiKey}`,
-            contentType: "application/json",
-          },
-          body: JSON.stringify({
-            model: "llama-3.1-sonar-small-128k-online",
-            messages: [{ role: "user", content: "test" }],
-            maxTokens: 1,
-          }),
-        }
-      );
+      await this.client.complete([{ role: "user", content: "test" }], {
+        maxTokens: 1,
+      });
 
       this.panel.webview.postMessage({
         type: "connectionResult",
-        success: response.ok,
-        message: response.ok
-          ? "Connection successful!"
-          : `Connection failed: ${response.status}`,
+        success: true,
+        message: "Connection successful!",
       });
     } catch (error) {
       this.panel.webview.postMessage({
         type: "connectionResult",
         success: false,
-        message: `Connection error: ${error}`,
+        message:
+          error instanceof PerplexityApiError && error.status
+            ? `Connection failed: ${error.status}`
+            : `Connection error: ${error}`,
       });
     }
   }
@@ -0,0 +1,286 @@
+import { createHash } from "crypto";
+import * as vscode from "vscode";
+import {
+  FileDiff,
+  mapWithConcurrency,
+  parseDiff,
+  toChunks,
+} from "./diffSummarizer";
+import { Repository } from "./git";
+import { getGitApi, resolveRepository } from "./gitRepositories";
+import { PerplexityClient } from "./perplexityClient";
+import {
+  locateFinding,
+  parseFindings,
+  REVIEW_FINDINGS_FORMAT,
+  ReviewDiagnostics,
+  ReviewFinding,
+} from "./reviewFindings";
+
+const REVIEW_MAX_TOKENS = 2000;
+const REVIEW_CHUNK_TOKENS = 12_000;
+const MAX_PARALLEL_REVIEWS = 3;
+
+const REVIEW_INSTRUCTIONS = `Review these staged changes before they are committed. Each line of the diff starts with its line number in the new version of the file, then "+" for added, "-" for removed (no number) or a space for unchanged lines. Focus on the added lines; use unchanged lines as context.`;
+
+interface Hunk {
+  oldStart: number;
+  oldCount: number;
+  newCount: number;
+}
+
+/** Prefixes diff lines with their line number in the new file. */
+function annotateDiff(text: string): string {
+  let line = 0;
+  let inHunks = false;
+  return text
+    .split("\n")
+    .map((content) => {
+      const hunk = content.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+      if (hunk) {
+        inHunks = true;
+        line = Number(hunk[1]);
+        return content;
+      }
+      if (!inHunks || content.startsWith("\\")) {
+        return content;
+      }
+      if (content.startsWith("-")) {
+        return `      ${content}`;
+      }
+      return `${String(line++).padStart(5)} ${content}`;
+    })
+    .join("\n");
+}
+
+function parseHunks(text: string): Hunk[] {
+  return [...text.matchAll(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/gm)].map(
+    (match) => ({
+      oldStart: Number(match[1]),
+      oldCount: match[2] === undefined ? 1 : Number(match[2]),
+      newCount: match[3] === undefined ? 1 : Number(match[3]),
+    })
+  );
+}
+
+/**
+ * Maps a 1-based line of the staged file to the working tree file, given
+ * the hunks of the unstaged diff. Lines inside an unstaged hunk map to its
+ * start and are relocated by their code afterwards.
+ */
+function mapStagedLine(hunks: Hunk[], line: number): number {
+  let offset = 0;
+  for (const hunk of hunks) {
+    const end =
+      hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart + hunk.oldCount - 1;
+    if (end < line) {
+      offset += hunk.newCount - hunk.oldCount;
+    } else if (hunk.oldStart <= line) {
+      return hunk.oldStart + offset;
+    }
+  }
+  return line + offset;
+}
+
+/**
+ * Reviews the staged diff of a repository and publishes the findings as
+ * diagnostics on the working tree files, with an optional gate that warns
+ * before committing with unresolved errors.
+ */
+export class StagedChangesReviewer {
+  /** Hash of the last reviewed staged diff per repository. */
+  private readonly reviewedDiffs = new Map<string, string>();
+  private readonly reviewedFiles = new Map<string, vscode.Uri[]>();
+
+  constructor(
+    private readonly client: PerplexityClient,
+    private readonly diagnostics: ReviewDiagnostics
+  ) {}
+
+  async reviewStaged(source?: unknown) {
+    try {
+      const api = await getGitApi();
+      const repository = await resolveRepository(api, source);
+      if (repository) {
+        await this.review(repository);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Error reviewing staged changes: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Commits through the Git extension, warning first when review errors in
+   * the staged files are unresolved. With `perplexityAI.reviewBeforeCommit`
+   * the staged changes are reviewed first if they changed since the last
+   * review.
+   */
+  async commitWithReview(source?: unknown) {
+    try {
+      const api = await getGitApi();
+      const repository = await resolveRepository(api, source);
+      if (!repository) {
+        return;
+      }
+
+      const reviewFirst = vscode.workspace
+        .getConfiguration("perplexityAI")
+        .get("reviewBeforeCommit", false);
+      if (reviewFirst) {
+        const diff = await repository.diff(true);
+        if (
+          diff.trim() &&
+          this.reviewedDiffs.get(repository.rootUri.toString()) !==
+            this.hash(diff)
+        ) {
+          await this.review(repository);
+        }
+      }
+
+      const errors = this.diagnostics.countErrors(
+        repository.state.indexChanges.map((change) => change.uri)
+      );
+      if (errors > 0) {
+        const choice = await vscode.window.showWarningMessage(
+          `The staged changes have ${errors} unresolved review error${errors === 1 ? "" : "s"}. Commit anyway?`,
+          { modal: true },
+          "Commit Anyway",
+          "Show Problems"
+        );
+        if (choice === "Show Problems") {
+          await vscode.commands.executeCommand(
+            "workbench.actions.view.problems"
+          );
+        }
+        if (choice !== "Commit Anyway") {
+          return;
+        }
+      }
+      await vscode.commands.executeCommand("git.commit", repository.rootUri);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Error committing: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  private hash(diff: string): string {
+    return createHash("sha1").update(diff).digest("hex");
+  }
+
+  private async review(repository: Repository) {
+    const diff = await repository.diff(true);
+    const files = parseDiff(diff).filter(
+      (file) =>
+        file.kind === "source" && !/^\+\+\+ \/dev\/null$/m.test(file.text)
+    );
+    if (files.length === 0) {
+      vscode.window.showInformationMessage("No staged changes to review");
+      return;
+    }
+
+    const apiKey = await this.client.getApiKey();
+    if (!apiKey) {
+      vscode.window.showErrorMessage("API key not configured");
+      return;
+    }
+
+    const findings = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Reviewing ${files.length} staged file${files.length === 1 ? "" : "s"}...`,
+        cancellable: false,
+      },
+      () => this.requestFindings(files)
+    );
+
+    const key = repository.rootUri.toString();
+    for (const uri of this.reviewedFiles.get(key) ?? []) {
+      this.diagnostics.clear(uri);
+    }
+    const { placed, uris } = await this.publish(repository, files, findings);
+    this.reviewedFiles.set(key, uris);
+    this.reviewedDiffs.set(key, this.hash(diff));
+
+    const errors = findings.filter((f) => f.severity === "error").length;
+    if (placed === 0) {
+      vscode.window.showInformationMessage(
+        "Review found no issues in the staged changes."
+      );
+      return;
+    }
+    const choice = await vscode.window.showInformationMessage(
+      `Review found ${placed} issue${placed === 1 ? "" : "s"}${errors ? ` (${errors} error${errors === 1 ? "" : "s"})` : ""} in the staged changes.`,
+      "Show Problems"
+    );
+    if (choice) {
+      await vscode.commands.executeCommand("workbench.actions.view.problems");
+    }
+  }
+
+  private async requestFindings(files: FileDiff[]): Promise<ReviewFinding[]> {
+    const annotated = files.map((file) => ({
+      ...file,
+      text: annotateDiff(file.text),
+    }));
+    const results = await mapWithConcurrency(
+      toChunks(annotated, REVIEW_CHUNK_TOKENS),
+      MAX_PARALLEL_REVIEWS,
+      async (chunk) => {
+        const completion = await this.client.complete(
+          [
+            {
+              role: "system",
+              content: `${REVIEW_INSTRUCTIONS}\n\n${REVIEW_FINDINGS_FORMAT}`,
+            },
+            { role: "user", content: chunk.text },
+          ],
+          { maxTokens: REVIEW_MAX_TOKENS }
+        );
+        return parseFindings(completion.content).filter(
+          (finding) => finding.file && chunk.paths.includes(finding.file)
+        );
+      }
+    );
+    return results.flat();
+  }
+
+  /** Places findings on the working tree files, shifted past unstaged edits. */
+  private async publish(
+    repository: Repository,
+    files: FileDiff[],
+    findings: ReviewFinding[]
+  ): Promise<{ placed: number; uris: vscode.Uri[] }> {
+    const unstaged = new Map(
+      parseDiff(await repository.diff(false)).map((file) => [
+        file.path,
+        parseHunks(file.text),
+      ])
+    );
+
+    let placed = 0;
+    const uris: vscode.Uri[] = [];
+    for (const file of files) {
+      const fileFindings = findings.filter((f) => f.file === file.path);
+      if (fileFindings.length === 0) {
+        continue;
+      }
+      const uri = vscode.Uri.joinPath(repository.rootUri, file.path);
+      const document = await vscode.workspace.openTextDocument(uri);
+      const hunks = unstaged.get(file.path) ?? [];
+      const located = fileFindings.flatMap((finding) => {
+        const line = locateFinding(
+          document,
+          finding,
+          mapStagedLine(hunks, finding.line) - 1
+        );
+        return line === undefined ? [] : [{ finding, line }];
+      });
+      placed += this.diagnostics.set(document, located);
+      uris.push(uri);
+    }
+    return { placed, uris };
+  }
+}
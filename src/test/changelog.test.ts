@@ -0,0 +1,99 @@
+import * as assert from "assert";
+import {
+  classifyCommit,
+  insertChangelogSection,
+  UNRELEASED,
+} from "../changelog";
+
+suite("classifyCommit", () => {
+  test("maps Conventional Commits types to sections", () => {
+    assert.strictEqual(classifyCommit("feat(chat): add export"), "Added");
+    assert.strictEqual(classifyCommit("fix: handle empty replies"), "Fixed");
+    assert.strictEqual(classifyCommit("perf: cache tokens"), "Changed");
+    assert.strictEqual(classifyCommit("chore: bump deps"), undefined);
+  });
+
+  test("keeps breaking internal changes", () => {
+    assert.strictEqual(classifyCommit("build!: require Node 20"), "Changed");
+    assert.strictEqual(
+      classifyCommit("ci: new pipeline\n\nBREAKING CHANGE: drops Node 18"),
+      "Changed"
+    );
+  });
+
+  test("reads gitmoji", () => {
+    assert.strictEqual(classifyCommit("🐛 Fix crash on startup"), "Fixed");
+    assert.strictEqual(classifyCommit("🔥 Old settings page"), "Removed");
+  });
+
+  test("falls back to the leading verb", () => {
+    assert.strictEqual(classifyCommit("Add model picker"), "Added");
+    assert.strictEqual(classifyCommit("Fixes #12"), "Fixed");
+    assert.strictEqual(classifyCommit("Drop legacy models"), "Removed");
+    assert.strictEqual(classifyCommit("Patch CVE-2024-1234"), "Security");
+    assert.strictEqual(classifyCommit("docs: typo"), undefined);
+    assert.strictEqual(classifyCommit("Merge branch 'main'"), undefined);
+    assert.strictEqual(classifyCommit("Rework the status bar"), "Changed");
+  });
+});
+
+suite("insertChangelogSection", () => {
+  const existing = `# Changelog
+
+## [Unreleased]
+
+### Added
+
+- Pending work
+
+## [1.0.0] - 2024-01-01
+
+### Added
+
+- First release
+
+[Unreleased]: https://example.com/compare/v1.0.0...HEAD
+[1.0.0]: https://example.com/releases/tag/v1.0.0
+`;
+
+  test("adds the header to a changelog without one", () => {
+    const text = insertChangelogSection("", "1.0.0", "2024-01-01", "- First");
+    assert.ok(text.startsWith("# Changelog\n"));
+    assert.ok(text.endsWith("## [1.0.0] - 2024-01-01\n\n- First\n"));
+  });
+
+  test("puts a release below Unreleased and above the latest release", () => {
+    const text = insertChangelogSection(
+      existing,
+      "1.1.0",
+      "2024-02-01",
+      "### Fixed\n\n- A bug"
+    );
+    const unreleased = text.indexOf("## [Unreleased]");
+    const added = text.indexOf("## [1.1.0] - 2024-02-01");
+    const previous = text.indexOf("## [1.0.0] - 2024-01-01");
+    assert.ok(unreleased !== -1 && unreleased < added && added < previous);
+    assert.ok(text.includes("- Pending work"));
+  });
+
+  test("replaces an existing Unreleased section", () => {
+    const text = insertChangelogSection(
+      existing,
+      UNRELEASED,
+      "2024-02-01",
+      "### Changed\n\n- New work"
+    );
+    assert.strictEqual(text.match(/## \[Unreleased\]/g)?.length, 1);
+    assert.ok(!text.includes("- Pending work"));
+    assert.ok(text.indexOf("- New work") < text.indexOf("## [1.0.0]"));
+  });
+
+  test("keeps link references at the end", () => {
+    const text = insertChangelogSection(existing, "1.1.0", "2024-02-01", "-");
+    assert.ok(
+      text.endsWith(
+        "- First release\n\n[Unreleased]: https://example.com/compare/v1.0.0...HEAD\n[1.0.0]: https://example.com/releases/tag/v1.0.0\n"
+      )
+    );
+  });
+});
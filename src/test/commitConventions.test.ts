@@ -0,0 +1,118 @@
+import * as assert from "assert";
+import {
+  CommitConventions,
+  ticketFromBranch,
+  validateCommitMessage,
+} from "../commitConventions";
+
+function conventions(
+  overrides: Partial<CommitConventions> = {}
+): CommitConventions {
+  return {
+    style: "freeform",
+    source: "tests",
+    scopeRequired: false,
+    suggestedScopes: [],
+    headerMaxLength: 72,
+    noFullStop: true,
+    examples: [],
+    ...overrides,
+  };
+}
+
+suite("validateCommitMessage", () => {
+  test("accepts a message that follows the conventions", () => {
+    assert.deepStrictEqual(
+      validateCommitMessage(
+        "feat(chat): add export\n\nExports sessions as HTML.",
+        conventions({
+          style: "conventional",
+          types: ["feat", "fix"],
+          scopes: ["chat"],
+        })
+      ),
+      []
+    );
+  });
+
+  test("checks the first line", () => {
+    assert.deepStrictEqual(validateCommitMessage("", conventions()), [
+      "The first line is empty.",
+    ]);
+    assert.deepStrictEqual(
+      validateCommitMessage(`${"x".repeat(80)}.\nno blank line`, conventions()),
+      [
+        "The first line is 81 characters; the limit is 72.",
+        "The body must be separated from the first line by a blank line.",
+        "The first line must not end with a period.",
+      ]
+    );
+  });
+
+  test("checks Conventional Commits types and scopes", () => {
+    const rules = conventions({
+      style: "conventional",
+      types: ["feat", "fix"],
+      scopes: ["chat"],
+      scopeRequired: true,
+    });
+    assert.deepStrictEqual(validateCommitMessage("Add export", rules), [
+      'The first line must look like "type(scope): description".',
+    ]);
+    assert.deepStrictEqual(validateCommitMessage("docs(api): typo", rules), [
+      '"docs" is not an allowed type (feat, fix).',
+      '"api" is not an allowed scope (chat).',
+    ]);
+    assert.deepStrictEqual(validateCommitMessage("fix: typo", rules), [
+      "A scope is required.",
+    ]);
+  });
+
+  test("checks gitmoji and custom templates", () => {
+    assert.deepStrictEqual(
+      validateCommitMessage("Fix crash", conventions({ style: "gitmoji" })),
+      ["The first line must start with a gitmoji."]
+    );
+    assert.deepStrictEqual(
+      validateCommitMessage("🐛 Fix crash", conventions({ style: "gitmoji" })),
+      []
+    );
+    const custom = conventions({
+      style: "custom",
+      template: "[{ticket}] {subject}\n\n{body}",
+    });
+    assert.deepStrictEqual(
+      validateCommitMessage("[ABC-1] Fix crash", custom),
+      []
+    );
+    assert.deepStrictEqual(validateCommitMessage("Fix crash", custom), [
+      'The first line does not follow the template "[{ticket}] {subject}".',
+    ]);
+  });
+
+  test("does not require the branch ticket", () => {
+    assert.deepStrictEqual(
+      validateCommitMessage("Fix crash", conventions({ ticket: "ABC-1" })),
+      []
+    );
+  });
+});
+
+suite("ticketFromBranch", () => {
+  test("prefers the first capture group", () => {
+    assert.strictEqual(
+      ticketFromBranch("feature/ABC-123-export", "[A-Z]+-\\d+"),
+      "ABC-123"
+    );
+    assert.strictEqual(
+      ticketFromBranch("feature/gh-42-export", "gh-(\\d+)"),
+      "42"
+    );
+  });
+
+  test("ignores missing branches and invalid patterns", () => {
+    assert.strictEqual(ticketFromBranch(undefined, "[A-Z]+-\\d+"), undefined);
+    assert.strictEqual(ticketFromBranch("main", "[A-Z]+-\\d+"), undefined);
+    assert.strictEqual(ticketFromBranch("ABC-1", "("), undefined);
+  });
+});
@@ -0,0 +1,80 @@
+import * as assert from "assert";
+import { parseDiff } from "../diffSummarizer";
+
+suite("parseDiff", () => {
+  test("splits a diff into files with their stats", () => {
+    const diff = `diff --git a/src/a.ts b/src/a.ts
+index 1111111..2222222 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,3 +1,3 @@
+-const a = 1;
++const a = 2;
++const b = 3;
+ export { a };
+diff --git a/package-lock.json b/package-lock.json
+--- a/package-lock.json
++++ b/package-lock.json
+@@ -1 +1 @@
+-{}
++{"lockfileVersion": 3}
+`;
+    const files = parseDiff(diff);
+    assert.deepStrictEqual(
+      files.map(({ path, additions, deletions, kind }) => ({
+        path,
+        additions,
+        deletions,
+        kind,
+      })),
+      [
+        { path: "src/a.ts", additions: 2, deletions: 1, kind: "source" },
+        {
+          path: "package-lock.json",
+          additions: 1,
+          deletions: 1,
+          kind: "lockfile",
+        },
+      ]
+    );
+    assert.ok(files[0].text.startsWith("diff --git a/src/a.ts b/src/a.ts"));
+  });
+
+  test("uses the new path of renamed and deleted files", () => {
+    const diff = `diff --git a/old.ts b/new.ts
+similarity index 100%
+rename from old.ts
+rename to new.ts
+diff --git a/gone.ts b/gone.ts
+deleted file mode 100644
+--- a/gone.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-gone();
+`;
+    assert.deepStrictEqual(
+      parseDiff(diff).map((file) => file.path),
+      ["new.ts", "gone.ts"]
+    );
+  });
+
+  test("recognises binary and generated files", () => {
+    const diff = `diff --git a/logo.png b/logo.png
+Binary files a/logo.png and b/logo.png differ
+diff --git a/dist/index.js b/dist/index.js
+--- a/dist/index.js
++++ b/dist/index.js
+@@ -1 +1 @@
+-a();
++b();
+`;
+    assert.deepStrictEqual(
+      parseDiff(diff).map((file) => file.kind),
+      ["binary", "generated"]
+    );
+  });
+
+  test("ignores text before the first file", () => {
+    assert.deepStrictEqual(parseDiff("no changes\n"), []);
+  });
+});
@@ -0,0 +1,35 @@
+import * as assert from "assert";
+import { parseBlame } from "../lineHistory";
+
+suite("parseBlame", () => {
+  test("reads the hash of each line", () => {
+    const blame = [
+      "1a2b3c4d (Jane Doe 2024-01-02 10:00:00 +0100 1) const a = 1;",
+      "^5e6f7a8 (Jane Doe 2023-05-06 09:00:00 +0100 2) const b = 2;",
+      "",
+    ].join("\n");
+    assert.deepStrictEqual(parseBlame(blame), [
+      { hash: "1a2b3c4d", path: undefined },
+      { hash: "5e6f7a8", path: undefined },
+    ]);
+  });
+
+  test("reads the original path of moved lines", () => {
+    const blame =
+      "1a2b3c4d src/old name.ts (Jane Doe 2024-01-02 10:00:00 +0100 1) x";
+    assert.deepStrictEqual(parseBlame(blame), [
+      { hash: "1a2b3c4d", path: "src/old name.ts" },
+    ]);
+  });
+
+  test("keeps one entry per line, even when it cannot be parsed", () => {
+    const blame = [
+      "0000000000000000000000000000000000000000 (Not Committed Yet 2024-01-02 10:00:00 +0100 1) new",
+      "garbage",
+    ].join("\n");
+    assert.deepStrictEqual(
+      parseBlame(blame).map((line) => line.hash),
+      ["0000000000000000000000000000000000000000", ""]
+    );
+  });
+});
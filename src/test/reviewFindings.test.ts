@@ -0,0 +1,118 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { locateFinding, parseFindings } from "../reviewFindings";
+
+suite("parseFindings", () => {
+  test("reads findings from a fenced JSON block", () => {
+    const reply = `<think>looking at the code</think>
+\`\`\`json
+{"findings": [{"file": "src/a.ts", "line": 3, "endLine": 4, "severity": "error", "message": "Off by one", "code": "i <= n", "fix": "i < n"}]}
+\`\`\``;
+    assert.deepStrictEqual(parseFindings(reply), [
+      {
+        file: "src/a.ts",
+        line: 3,
+        endLine: 4,
+        severity: "error",
+        message: "Off by one",
+        code: "i <= n",
+        fix: "i < n",
+      },
+    ]);
+  });
+
+  test("accepts a bare array surrounded by prose", () => {
+    const findings = parseFindings(
+      'Here you go: [{"line": 2, "message": "Unused variable"}] Done.'
+    );
+    assert.strictEqual(findings.length, 1);
+    assert.strictEqual(findings[0].line, 2);
+    assert.strictEqual(findings[0].severity, "warning");
+  });
+
+  test("drops malformed entries and invalid end lines", () => {
+    const findings = parseFindings(
+      JSON.stringify({
+        findings: [
+          { line: 0, message: "Before the file" },
+          { line: "x", message: "Not a number" },
+          { line: 5 },
+          { line: 7, endLine: 6, severity: "fatal", message: "Kept" },
+        ],
+      })
+    );
+    assert.deepStrictEqual(
+      findings.map(({ line, endLine, severity }) => ({
+        line,
+        endLine,
+        severity,
+      })),
+      [{ line: 7, endLine: undefined, severity: "warning" }]
+    );
+  });
+
+  test("returns no findings for an empty list", () => {
+    assert.deepStrictEqual(parseFindings('{"findings": []}'), []);
+  });
+
+  test("rejects replies without JSON", () => {
+    assert.throws(() => parseFindings("Looks good to me."));
+  });
+});
+
+suite("locateFinding", () => {
+  const lines = ["const a = 1;", "const b = 2;", "", "return a + b;"];
+  let document: vscode.TextDocument;
+
+  suiteSetup(async () => {
+    document = await vscode.workspace.openTextDocument({
+      content: lines.join("\n"),
+    });
+  });
+
+  test("keeps the reported line when its code is there", () => {
+    assert.strictEqual(
+      locateFinding(document, { line: 2, severity: "info", message: "" }),
+      1
+    );
+    assert.strictEqual(
+      locateFinding(document, {
+        line: 4,
+        severity: "info",
+        message: "",
+        code: "  return a + b;",
+      }),
+      3
+    );
+  });
+
+  test("moves to the nearest line holding the reported code", () => {
+    assert.strictEqual(
+      locateFinding(document, {
+        line: 3,
+        severity: "warning",
+        message: "",
+        code: "const a = 1;",
+      }),
+      0
+    );
+  });
+
+  test("falls back to the expected line when the code is gone", () => {
+    assert.strictEqual(
+      locateFinding(
+        document,
+        { line: 1, severity: "warning", message: "", code: "deleted();" },
+        2
+      ),
+      2
+    );
+  });
+
+  test("returns undefined for lines outside the document", () => {
+    assert.strictEqual(
+      locateFinding(document, { line: 10, severity: "error", message: "" }),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import * as assert from "assert";
+import { estimateTokens, TrimStrategy, trimToTokens } from "../tokenBudget";
+
+const STRATEGIES: TrimStrategy[] = ["head", "tail", "middle", "outline"];
+
+const source = [...Array(200).keys()]
+  .map(
+    (i) =>
+      `export function f${i}(value: number) {\n  const doubled = value * 2;\n  const shifted = doubled + ${i};\n  console.log(value, doubled, shifted);\n  return shifted * ${i};\n}`
+  )
+  .join("\n");
+
+suite("trimToTokens", () => {
+  test("returns text within the budget unchanged", () => {
+    for (const strategy of STRATEGIES) {
+      assert.strictEqual(trimToTokens("short", 10, strategy), "short");
+    }
+  });
+
+  test("never exceeds the budget", () => {
+    for (const strategy of STRATEGIES) {
+      for (const maxTokens of [1, 5, 20, 100, 500, 1000]) {
+        const trimmed = trimToTokens(source, maxTokens, strategy);
+        assert.ok(
+          estimateTokens(trimmed) <= maxTokens,
+          `${strategy} with ${maxTokens} tokens kept ${estimateTokens(trimmed)}`
+        );
+      }
+    }
+  });
+
+  test("returns nothing for an empty budget", () => {
+    for (const strategy of STRATEGIES) {
+      assert.strictEqual(trimToTokens(source, 0, strategy), "");
+    }
+  });
+
+  test("keeps the requested end of the text", () => {
+    const head = trimToTokens(source, 200, "head");
+    assert.ok(head.startsWith("export function f0("));
+    assert.ok(head.endsWith("... (truncated)"));
+
+    const tail = trimToTokens(source, 200, "tail");
+    assert.ok(tail.startsWith("... (truncated)\n"));
+    assert.ok(tail.endsWith("return shifted * 199;\n}"));
+
+    const middle = trimToTokens(source, 200, "middle");
+    assert.ok(middle.startsWith("export function f0("));
+    assert.ok(middle.endsWith("return shifted * 199;\n}"));
+    assert.match(middle, /\.\.\. \(\d+ lines omitted\) \.\.\./);
+  });
+
+  test("outlines code before cutting it", () => {
+    const outlined = trimToTokens(source, 2000, "outline");
+    assert.ok(outlined.includes("export function f199(value: number) {"));
+    assert.ok(!outlined.includes("return shifted"));
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { parseAgentReply, resolveWorkspacePath } from "../workspaceAgent";
+
+suite("parseAgentReply", () => {
+  test("reads the fenced JSON object", () => {
+    const reply = `<think>Need the file first.</think>
+I'll read it.
+\`\`\`json
+{"plan": ["Read the file"], "tool": "readFile", "path": "src/a.ts"}
+\`\`\``;
+    assert.deepStrictEqual(parseAgentReply(reply), {
+      plan: ["Read the file"],
+      tool: "readFile",
+      path: "src/a.ts",
+    });
+  });
+
+  test("finds an unfenced object in prose", () => {
+    assert.deepStrictEqual(
+      parseAgentReply('Done: {"answer": "Nothing to change"} Thanks'),
+      { answer: "Nothing to change" }
+    );
+  });
+
+  test("rejects replies that are not a JSON object", () => {
+    assert.throws(() => parseAgentReply("No JSON here"), /JSON object/);
+    assert.throws(() => parseAgentReply("```json\n[1, 2]\n```"), /JSON/);
+    assert.throws(() => parseAgentReply("```json\nnull\n```"), /JSON/);
+  });
+});
+
+suite("resolveWorkspacePath", () => {
+  const root = () => vscode.workspace.workspaceFolders![0].uri;
+
+  test("resolves paths inside the workspace", () => {
+    assert.strictEqual(
+      resolveWorkspacePath("src/a.ts")?.toString(),
+      vscode.Uri.joinPath(root(), "src", "a.ts").toString()
+    );
+    assert.strictEqual(
+      resolveWorkspacePath("./docs/../b.ts")?.toString(),
+      vscode.Uri.joinPath(root(), "b.ts").toString()
+    );
+    assert.strictEqual(
+      resolveWorkspacePath("src\\c.ts")?.toString(),
+      vscode.Uri.joinPath(root(), "src", "c.ts").toString()
+    );
+    assert.strictEqual(
+      resolveWorkspacePath(".")?.toString(),
+      root().toString()
+    );
+  });
+
+  test("rejects paths outside the workspace", () => {
+    assert.strictEqual(resolveWorkspacePath("../secret.txt"), undefined);
+    assert.strictEqual(resolveWorkspacePath("src/../../x"), undefined);
+    assert.strictEqual(resolveWorkspacePath(".."), undefined);
+    assert.strictEqual(resolveWorkspacePath("/etc/passwd"), undefined);
+  });
+});
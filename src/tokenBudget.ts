@@ -0,0 +1,332 @@
+import * as vscode from "vscode";
+
+/**
+ * How an oversized text is shortened:
+ * - `head` keeps the beginning, `tail` keeps the end
+ * - `middle` keeps both ends and cuts the middle
+ * - `outline` first drops function bodies (keeping imports and signatures),
+ *   then cuts the middle if that is still not enough
+ */
+export type TrimStrategy = "head" | "tail" | "middle" | "outline";
+
+export interface TrimNotice {
+  label: string;
+  originalTokens: number;
+  /** 0 when the item was dropped entirely. */
+  keptTokens: number;
+}
+
+export interface BudgetEntry {
+  label: string;
+  text: string;
+  strategy: TrimStrategy;
+}
+
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_CONTEXT_WINDOW = 127_000;
+/** Headroom for message framing and estimation error. */
+const SAFETY_MARGIN = 0.05;
+
+/* eslint-disable @typescript-eslint/naming-convention */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  sonar: 127_000,
+  "sonar-pro": 200_000,
+  "sonar-reasoning": 127_000,
+  "sonar-reasoning-pro": 127_000,
+  "sonar-deep-research": 127_000,
+  "llama-3.1-sonar-small-128k-online": 127_000,
+  "llama-3.1-sonar-large-128k-online": 127_000,
+  "llama-3.1-sonar-huge-128k-online": 127_000,
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+export function getContextWindow(model: string): number {
+  return MODEL_CONTEXT_WINDOWS[model] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/** Rough token estimate; errs on the high side for code and punctuation. */
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+  const symbols = (text.match(/[^\w\s]/g) || []).length;
+  return Math.ceil((text.length + symbols) / CHARS_PER_TOKEN);
+}
+
+const SIGNATURE_PATTERN =
+  /^\s*(?:import\b|from\b|export\b|package\b|using\b|#include\b|@\w+|(?:public|private|protected|internal|static|abstract|async|override|final|pub|extern)\b|(?:function|class|interface|type|enum|struct|trait|impl|def|fn|func|module|namespace)\b|(?:const|let|var)\s+\w+\s*=\s*(?:async\s*)?(?:\([^)]*\)|\w+)\s*=>)/;
+
+const TRUNCATED_MARKER = "... (truncated)";
+
+function cutMiddle(text: string, maxChars: number): string {
+  const lines = text.split("\n");
+  const headBudget = Math.floor(maxChars * 0.6);
+  const tailBudget = maxChars - headBudget;
+  const head: string[] = [];
+  const tail: string[] = [];
+  let used = 0;
+  for (const line of lines) {
+    if (used + line.length + 1 > headBudget) {
+      break;
+    }
+    head.push(line);
+    used += line.length + 1;
+  }
+  used = 0;
+  for (let i = lines.length - 1; i >= head.length; i--) {
+    if (used + lines[i].length + 1 > tailBudget) {
+      break;
+    }
+    tail.unshift(lines[i]);
+    used += lines[i].length + 1;
+  }
+  const omitted = lines.length - head.length - tail.length;
+  if (omitted <= 0) {
+    return text;
+  }
+  return [...head, `... (${omitted} lines omitted) ...`, ...tail].join("\n");
+}
+
+function outline(text: string): string {
+  const lines = text.split("\n");
+  const result: string[] = [];
+  let skipped = 0;
+  let skippedIndent = "";
+
+  const flush = () => {
+    if (skipped > 0) {
+      result.push(`${skippedIndent}... (${skipped} lines omitted)`);
+      skipped = 0;
+    }
+  };
+
+  for (const line of lines) {
+    const indent = line.match(/^\s*/)![0];
+    const isTopLevel = indent.length === 0 && line.trim().length > 0;
+    if (SIGNATURE_PATTERN.test(line) || isTopLevel) {
+      flush();
+      result.push(line);
+    } else if (line.trim().length > 0) {
+      if (skipped === 0) {
+        skippedIndent = indent;
+      }
+      skipped++;
+    }
+  }
+  flush();
+  return result.join("\n");
+}
+
+export function trimToTokens(
+  text: string,
+  maxTokens: number,
+  strategy: TrimStrategy
+): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  if (maxTokens <= 0) {
+    return "";
+  }
+  switch (strategy) {
+    case "head":
+      return cutToTokens(
+        text,
+        maxTokens,
+        `\n${TRUNCATED_MARKER}`,
+        (chars) => `${text.slice(0, chars)}\n${TRUNCATED_MARKER}`
+      );
+    case "tail":
+      return cutToTokens(
+        text,
+        maxTokens,
+        `${TRUNCATED_MARKER}\n`,
+        (chars) => `${TRUNCATED_MARKER}\n${text.slice(text.length - chars)}`
+      );
+    case "middle":
+      return cutToTokens(text, maxTokens, middleMarker(text), (chars) =>
+        cutMiddle(text, chars)
+      );
+    case "outline": {
+      const outlined = outline(text);
+      return estimateTokens(outlined) <= maxTokens
+        ? outlined
+        : cutToTokens(outlined, maxTokens, middleMarker(outlined), (chars) =>
+            cutMiddle(outlined, chars)
+          );
+    }
+  }
+}
+
+/** Longest marker `cutMiddle` can add to `text`. */
+function middleMarker(text: string): string {
+  return `\n... (${text.split("\n").length} lines omitted) ...\n`;
+}
+
+/**
+ * Cuts `text` to `maxTokens` including the truncation `marker`, whose cost
+ * comes out of the allowance. The character allowance is scaled by the
+ * text's own chars-per-token ratio, then shrunk while the uneven spread of
+ * symbols still leaves the result over budget.
+ */
+function cutToTokens(
+  text: string,
+  maxTokens: number,
+  marker: string,
+  cut: (maxChars: number) => string
+): string {
+  const allowance = maxTokens - estimateTokens(marker);
+  if (allowance <= 0) {
+    return "";
+  }
+  let maxChars = Math.floor((text.length / estimateTokens(text)) * allowance);
+  let result = cut(maxChars);
+  while (maxChars > 0 && estimateTokens(result) > maxTokens) {
+    maxChars = Math.min(
+      maxChars - 1,
+      Math.floor((maxChars * maxTokens) / estimateTokens(result))
+    );
+    result = cut(maxChars);
+  }
+  return estimateTokens(result) <= maxTokens ? result : "";
+}
+
+/**
+ * Tracks the input tokens left for a single request and records everything
+ * that had to be shortened or dropped to fit.
+ */
+export class TokenBudget {
+  private remaining: number;
+  public readonly notices: TrimNotice[] = [];
+
+  constructor(public readonly total: number) {
+    this.remaining = total;
+  }
+
+  /**
+   * Budget for a request to `model` that leaves room for `responseTokens`.
+   * Both default to the configured `perplexityAI.model`/`maxTokens`.
+   * `limit` caps the input size for latency-sensitive callers.
+   */
+  public static forModel(
+    model?: string,
+    responseTokens?: number,
+    limit?: number
+  ): TokenBudget {
+    const config = vscode.workspace.getConfiguration("perplexityAI");
+    const window = getContextWindow(model ?? config.get("model", "sonar"));
+    const reserved = responseTokens ?? config.get("maxTokens", 2000);
+    const available = Math.floor((window - reserved) * (1 - SAFETY_MARGIN));
+    return new TokenBudget(
+      Math.max(0, limit ? Math.min(limit, available) : available)
+    );
+  }
+
+  public get available(): number {
+    return this.remaining;
+  }
+
+  /** Accounts for text that must be sent as-is. */
+  public reserve(text: string) {
+    this.remaining = Math.max(0, this.remaining - estimateTokens(text));
+  }
+
+  /** Fits `text` into at most `share` of the remaining budget (default all). */
+  public fit(
+    label: string,
+    text: string,
+    strategy: TrimStrategy,
+    share = 1
+  ): string {
+    const allowance = Math.floor(this.remaining * share);
+    const fitted = trimToTokens(text, allowance, strategy);
+    this.record(label, text, fitted);
+    this.reserve(fitted);
+    return fitted;
+  }
+
+  /**
+   * Fits several entries into `share` of the remaining budget. Small entries
+   * are kept whole and their unused allowance goes to the larger ones.
+   */
+  public fitAll(entries: BudgetEntry[], share = 1): string[] {
+    let pool = Math.floor(this.remaining * share);
+    const results = new Array<string>(entries.length);
+    const order = entries
+      .map((entry, index) => ({ entry, index }))
+      .sort((a, b) => a.entry.text.length - b.entry.text.length);
+
+    order.forEach(({ entry, index }, position) => {
+      const allowance = Math.floor(pool / (order.length - position));
+      const fitted = trimToTokens(entry.text, allowance, entry.strategy);
+      this.record(entry.label, entry.text, fitted);
+      pool -= estimateTokens(fitted);
+      results[index] = fitted;
+    });
+
+    results.forEach((text) => this.reserve(text));
+    return results;
+  }
+
+  /**
+   * Keeps the most recent messages that fit, dropping whole messages from
+   * the start of the conversation.
+   */
+  public fitMessages<T extends { content: string }>(
+    label: string,
+    messages: T[]
+  ): T[] {
+    const kept: T[] = [];
+    let dropped = 0;
+    let droppedTokens = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const tokens = estimateTokens(messages[i].content);
+      if (dropped === 0 && tokens <= this.remaining) {
+        kept.unshift(messages[i]);
+        this.remaining -= tokens;
+      } else {
+        dropped++;
+        droppedTokens += tokens;
+      }
+    }
+    if (dropped > 0) {
+      this.notices.push({
+        label: `${dropped} ${label}`,
+        originalTokens: droppedTokens,
+        keptTokens: 0,
+      });
+    }
+    return kept;
+  }
+
+  /** Human readable summary of what was trimmed, if anything. */
+  public describeTrimmed(): string | undefined {
+    if (this.notices.length === 0) {
+      return undefined;
+    }
+    const parts = this.notices.map((notice) =>
+      notice.keptTokens === 0
+        ? `${notice.label} dropped`
+        : `${notice.label} trimmed (~${notice.originalTokens.toLocaleString()} → ~${notice.keptTokens.toLocaleString()} tokens)`
+    );
+    return `To fit the model's context window: ${parts.join("; ")}.`;
+  }
+
+  /** Tells the user what was trimmed, if anything. */
+  public reportTrimmed() {
+    const message = this.describeTrimmed();
+    if (message) {
+      vscode.window.showInformationMessage(message);
+    }
+  }
+
+  private record(label: string, original: string, fitted: string) {
+    if (fitted !== original) {
+      this.notices.push({
+        label,
+        originalTokens: estimateTokens(original),
+        keptTokens: estimateTokens(fitted),
+      });
+    }
+  }
+}
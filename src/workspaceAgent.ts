@@ -0,0 +1,350 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { ProposedChange } from "./codeBlockApplier";
+import {
+  PerplexityClient,
+  PerplexityMessage,
+  PerplexityRequestOptions,
+} from "./perplexityClient";
+import { isSecretFile } from "./secretFiles";
+import { estimateTokens, TokenBudget, trimToTokens } from "./tokenBudget";
+
+/** Upper bound on model round trips for a single request. */
+const MAX_AGENT_STEPS = 12;
+const MAX_TOOL_RESULT_TOKENS = 8000;
+const MAX_DIRECTORY_ENTRIES = 200;
+const MAX_SEARCH_FILES = 1000;
+const MAX_SEARCH_MATCHES = 50;
+const MAX_SEARCH_FILE_BYTES = 512 * 1024;
+const SEARCH_EXCLUDE = "{**/node_modules/**,**/.git/**,**/out/**,**/dist/**}";
+
+const AGENT_PROTOCOL = `You are working in agent mode: you can inspect the user's workspace with tools and propose file edits, which the user reviews before they are applied.
+
+Reply with exactly one JSON object in a \`\`\`json fenced block and nothing else. Valid replies:
+- {"plan": ["step", ...], "tool": "readFile", "path": "relative/path"}
+- {"tool": "listDirectory", "path": "relative/dir"} (use "." for the workspace root)
+- {"tool": "searchWorkspace", "query": "literal text", "include": "optional glob"}
+- {"edits": [{"path": "relative/path", "content": "complete new file content"}], "summary": "what changed and why"}
+- {"answer": "markdown reply when no file changes are needed"}
+
+Rules:
+- Include "plan" in your first reply and update it whenever it changes.
+- Read a file before editing it. Every edit replaces the whole file, so "content" must be the complete file.
+- Paths are relative to the workspace root. New files may be created; nothing can be deleted.
+- Send all edits in one reply once you are done investigating.`;
+
+interface AgentReply {
+  plan?: string[];
+  tool?: "readFile" | "listDirectory" | "searchWorkspace";
+  path?: string;
+  query?: string;
+  include?: string;
+  edits?: Array<{ path?: string; content?: string }>;
+  summary?: string;
+  answer?: string;
+}
+
+export interface AgentResult {
+  /** Final answer or summary of the proposed edits. */
+  summary: string;
+  changes: ProposedChange[];
+}
+
+export class AgentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AgentError";
+  }
+}
+
+/** Extracts the JSON object from a reply, tolerating prose and `<think>`. */
+export function parseAgentReply(text: string): AgentReply {
+  const withoutThinking = text.replace(/<think>[\s\S]*?<\/think>/g, "");
+  const fenced = withoutThinking.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  let json = fenced?.[1];
+  if (!json) {
+    const start = withoutThinking.indexOf("{");
+    const end = withoutThinking.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+      throw new AgentError("Reply does not contain a JSON object");
+    }
+    json = withoutThinking.slice(start, end + 1);
+  }
+  const reply = JSON.parse(json);
+  if (!reply || typeof reply !== "object" || Array.isArray(reply)) {
+    throw new AgentError("Reply is not a JSON object");
+  }
+  return reply as AgentReply;
+}
+
+/**
+ * Resolves a model-supplied path inside the workspace. Paths that escape the
+ * workspace folders are rejected. In multi-root workspaces a leading folder
+ * name selects the folder.
+ */
+export function resolveWorkspacePath(
+  relativePath: string
+): vscode.Uri | undefined {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0 || path.isAbsolute(relativePath)) {
+    return undefined;
+  }
+  const normalized = path.posix.normalize(
+    relativePath.replace(/\\/g, "/").replace(/^\.\//, "") || "."
+  );
+  if (normalized === ".." || normalized.startsWith("../")) {
+    return undefined;
+  }
+
+  const [head, ...rest] = normalized.split("/");
+  const named = folders.find((folder) => folder.name === head);
+  const folder = named && folders.length > 1 ? named : folders[0];
+  const segments = named && folders.length > 1 ? rest : [normalized];
+  return vscode.Uri.joinPath(folder.uri, ...segments.filter(Boolean));
+}
+
+/**
+ * Plan-and-edit loop: the model reads the workspace through a fixed set of
+ * read-only tools and ends with either an answer or a set of whole-file
+ * edits. Nothing is written here; callers review and apply the changes.
+ */
+export class WorkspaceAgent {
+  constructor(private readonly client: PerplexityClient) {}
+
+  /**
+   * `messages` starts with the system prompt and ends with the user's
+   * request. `onProgress` receives markdown describing each step.
+   */
+  public async run(
+    messages: PerplexityMessage[],
+    options: PerplexityRequestOptions,
+    onProgress: (markdown: string) => void
+  ): Promise<AgentResult> {
+    const [system, ...conversation] = messages;
+    const systemPrompt = `${system.content}\n\n${AGENT_PROTOCOL}`;
+    const steps: PerplexityMessage[] = [];
+    const readFiles = new Set<string>();
+
+    for (let step = 0; step < MAX_AGENT_STEPS; step++) {
+      const completion = await this.client.complete(
+        this.buildRequest(systemPrompt, conversation, steps, options.model),
+        options
+      );
+      steps.push({ role: "assistant", content: completion.content });
+
+      let reply: AgentReply;
+      try {
+        reply = parseAgentReply(completion.content);
+      } catch (error) {
+        onProgress("_Reply was not valid JSON, asking again..._\n\n");
+        steps.push({
+          role: "user",
+          content: `Your reply could not be parsed (${error instanceof Error ? error.message : error}). Reply with a single JSON object in a \`\`\`json block.`,
+        });
+        continue;
+      }
+
+      if (reply.plan?.length) {
+        onProgress(
+          `**Plan**\n${reply.plan.map((item, i) => `${i + 1}. ${item}`).join("\n")}\n\n`
+        );
+      }
+
+      if (reply.edits) {
+        let changes: ProposedChange[];
+        try {
+          changes = await this.toChanges(reply.edits, readFiles);
+        } catch (error) {
+          steps.push({
+            role: "user",
+            content: `${error instanceof Error ? error.message : error} Fix this and reply again.`,
+          });
+          continue;
+        }
+        onProgress(`${reply.summary ?? ""}\n\n`);
+        return { summary: reply.summary ?? "", changes };
+      }
+      if (reply.answer !== undefined) {
+        onProgress(reply.answer);
+        return { summary: reply.answer, changes: [] };
+      }
+      if (!reply.tool) {
+        steps.push({
+          role: "user",
+          content:
+            'Reply must contain "tool", "edits" or "answer". Try again with a single JSON object.',
+        });
+        continue;
+      }
+
+      const result = await this.runTool(reply, readFiles, onProgress);
+      steps.push({
+        role: "user",
+        content: `Result of ${reply.tool}:\n${trimToTokens(result, MAX_TOOL_RESULT_TOKENS, "middle")}`,
+      });
+    }
+
+    throw new AgentError(
+      `Stopped after ${MAX_AGENT_STEPS} steps without a final answer.`
+    );
+  }
+
+  /**
+   * Keeps the system prompt and the user's request, dropping the oldest tool
+   * exchanges first when the transcript outgrows the context window.
+   */
+  private buildRequest(
+    systemPrompt: string,
+    conversation: PerplexityMessage[],
+    steps: PerplexityMessage[],
+    model?: string
+  ): PerplexityMessage[] {
+    const budget = TokenBudget.forModel(model);
+    budget.reserve(systemPrompt);
+    conversation.forEach((message) => budget.reserve(message.content));
+    const kept = budget.fitMessages("earlier agent steps", steps);
+    // A trimmed transcript must still alternate after the user's request
+    if (kept[0]?.role === "user") {
+      kept.shift();
+    }
+    return [
+      { role: "system", content: systemPrompt },
+      ...conversation,
+      ...kept,
+    ];
+  }
+
+  private async runTool(
+    reply: AgentReply,
+    readFiles: Set<string>,
+    onProgress: (markdown: string) => void
+  ): Promise<string> {
+    try {
+      switch (reply.tool) {
+        case "readFile": {
+          onProgress(`📄 Reading \`${reply.path}\`\n\n`);
+          const uri = this.requirePath(reply.path);
+          const text = (await vscode.workspace.openTextDocument(uri)).getText();
+          if (estimateTokens(text) > MAX_TOOL_RESULT_TOKENS) {
+            // Never allow whole-file rewrites based on a partial view
+            return `${trimToTokens(text, MAX_TOOL_RESULT_TOKENS - 100, "middle")}\n\n(File is too large to show in full, so it cannot be edited.)`;
+          }
+          readFiles.add(uri.toString());
+          return text;
+        }
+        case "listDirectory": {
+          onProgress(`📁 Listing \`${reply.path || "."}\`\n\n`);
+          const uri = this.requirePath(reply.path || ".");
+          const entries = await vscode.workspace.fs.readDirectory(uri);
+          const listing = entries
+            .sort(([a], [b]) => a.localeCompare(b))
+            .slice(0, MAX_DIRECTORY_ENTRIES)
+            .map(([name, type]) =>
+              type & vscode.FileType.Directory ? `${name}/` : name
+            );
+          return listing.length > 0
+            ? listing.join("\n") +
+                (entries.length > MAX_DIRECTORY_ENTRIES
+                  ? `\n... (${entries.length - MAX_DIRECTORY_ENTRIES} more)`
+                  : "")
+            : "(empty directory)";
+        }
+        case "searchWorkspace":
+          onProgress(`🔍 Searching for \`${reply.query}\`\n\n`);
+          return await this.searchWorkspace(reply.query, reply.include);
+        default:
+          return `Unknown tool "${reply.tool}". Use readFile, listDirectory or searchWorkspace.`;
+      }
+    } catch (error) {
+      return `Error: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private requirePath(relativePath?: string): vscode.Uri {
+    const uri = relativePath ? resolveWorkspacePath(relativePath) : undefined;
+    if (!uri) {
+      throw new AgentError(
+        `"${relativePath ?? ""}" is not a path inside the workspace`
+      );
+    }
+    if (isSecretFile(uri)) {
+      throw new AgentError(
+        `"${relativePath}" may contain credentials and cannot be read`
+      );
+    }
+    return uri;
+  }
+
+  private async searchWorkspace(
+    query?: string,
+    include?: string
+  ): Promise<string> {
+    if (!query) {
+      throw new AgentError('searchWorkspace needs a "query"');
+    }
+    const needle = query.toLowerCase();
+    const files = (
+      await vscode.workspace.findFiles(
+        include || "**/*",
+        SEARCH_EXCLUDE,
+        MAX_SEARCH_FILES
+      )
+    ).filter((file) => !isSecretFile(file));
+    const matches: string[] = [];
+    for (const file of files) {
+      if (matches.length >= MAX_SEARCH_MATCHES) {
+        break;
+      }
+      const bytes = await vscode.workspace.fs.readFile(file);
+      if (bytes.length > MAX_SEARCH_FILE_BYTES || bytes.includes(0)) {
+        continue;
+      }
+      const lines = Buffer.from(bytes).toString("utf8").split("\n");
+      lines.forEach((line, index) => {
+        if (
+          matches.length < MAX_SEARCH_MATCHES &&
+          line.toLowerCase().includes(needle)
+        ) {
+          matches.push(
+            `${vscode.workspace.asRelativePath(file)}:${index + 1}: ${line.trim()}`
+          );
+        }
+      });
+    }
+    return matches.length > 0
+      ? matches.join("\n") +
+          (matches.length === MAX_SEARCH_MATCHES ? "\n... (more matches)" : "")
+      : "No matches.";
+  }
+
+  private async toChanges(
+    edits: NonNullable<AgentReply["edits"]>,
+    readFiles: Set<string>
+  ): Promise<ProposedChange[]> {
+    const changes: ProposedChange[] = [];
+    for (const edit of edits) {
+      if (!edit.path || typeof edit.content !== "string") {
+        continue;
+      }
+      const uri = this.requirePath(edit.path);
+      let exists = true;
+      try {
+        await vscode.workspace.fs.stat(uri);
+      } catch {
+        exists = false;
+      }
+      if (exists && !readFiles.has(uri.toString())) {
+        // Whole-file edits to unread files would discard their contents
+        throw new AgentError(
+          `Proposed an edit to ${edit.path} without reading it first.`
+        );
+      }
+      changes.push({
+        uri,
+        newText: edit.content.replace(/\n?$/, "\n"),
+        ...(exists ? {} : { isNew: true }),
+      });
+    }
+    return changes;
+  }
+}